@@ -0,0 +1,91 @@
+import * as core from '@actions/core';
+import { readFileSync, rmSync, writeFileSync, mkdtempSync } from 'fs';
+import { load } from 'js-yaml';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FakeGitHub } from './fake-github';
+
+/** What the action reported while it ran */
+export type ActionRun = {
+	/** Every output set with core.setOutput */
+	outputs: Record<string, unknown>;
+	/** Every message passed to core.setFailed */
+	failures: string[];
+	warnings: string[];
+	/** Reads the job summary written so far */
+	summary: () => string;
+};
+
+const tmp = mkdtempSync(join(tmpdir(), 'sync-branches-test-'));
+
+/** Removes the temporary files written by setUpAction. Call it in afterAll. */
+export const cleanUpActionEnv = (): void => rmSync(tmp, { recursive: true, force: true });
+
+const readDefaults = (): Record<string, string> => {
+	const { inputs } = load(readFileSync(join(__dirname, '..', 'action.yml'), 'utf8')) as {
+		inputs: Record<string, { default?: string }>;
+	};
+	return Object.fromEntries(Object.entries(inputs).map(([name, { default: value }]) => [name, value ?? '']));
+};
+
+/**
+ * Sets up the environment of a workflow run: the inputs (action.yml's defaults, overridden by "inputs"), the event
+ * payload (a fixture from __tests__/fixtures) and the job summary file.
+ *
+ * core's outputs, failures and logs are captured rather than printed. Call jest.restoreAllMocks() after each test.
+ */
+export const setUpAction = (
+	github: FakeGitHub,
+	{
+		eventName = 'push',
+		fixture,
+		event,
+		inputs = {},
+	}: {
+		eventName?: string;
+		/** The file name of the event payload in __tests__/fixtures */
+		fixture: string;
+		/** Overrides for fields of the fixture */
+		event?: Record<string, unknown>;
+		inputs?: Record<string, string>;
+	},
+): ActionRun => {
+	for (const name of Object.keys(process.env).filter(n => n.startsWith('INPUT_'))) {
+		delete process.env[name];
+	}
+	for (const [name, value] of Object.entries({ ...readDefaults(), GITHUB_TOKEN: 'fake-token', ...inputs })) {
+		process.env[`INPUT_${name.replace(/ /g, '_').toUpperCase()}`] = value;
+	}
+
+	const payload = {
+		...JSON.parse(readFileSync(join(__dirname, 'fixtures', fixture), 'utf8')),
+		...event,
+	};
+	const eventPath = join(tmp, 'event.json');
+	writeFileSync(eventPath, JSON.stringify(payload));
+
+	const summaryPath = join(tmp, 'summary.md');
+	writeFileSync(summaryPath, '');
+
+	process.env.GITHUB_EVENT_NAME = eventName;
+	process.env.GITHUB_EVENT_PATH = eventPath;
+	process.env.GITHUB_REPOSITORY = `${github.owner}/${github.repo}`;
+	process.env.GITHUB_STEP_SUMMARY = summaryPath;
+	delete process.env.GITHUB_OUTPUT;
+
+	const run: ActionRun = { outputs: {}, failures: [], warnings: [], summary: () => readFileSync(summaryPath, 'utf8') };
+	jest.spyOn(core, 'setOutput').mockImplementation((name, value) => {
+		run.outputs[name] = value;
+	});
+	jest.spyOn(core, 'setFailed').mockImplementation(message => {
+		run.failures.push(message instanceof Error ? message.message : message);
+	});
+	jest.spyOn(core, 'warning').mockImplementation(message => {
+		run.warnings.push(message instanceof Error ? message.message : message);
+	});
+	for (const quiet of ['debug', 'info', 'error', 'notice'] as const) {
+		jest.spyOn(core, quiet).mockImplementation(() => undefined);
+	}
+
+	return run;
+};
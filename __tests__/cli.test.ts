@@ -0,0 +1,89 @@
+import * as core from '@actions/core';
+import { CLIOptions, parseCommandLine } from '../src/cli';
+import { updateSyncPRs } from '../src/sync';
+import { FakeGitHub } from './fake-github';
+
+const required = ['--repo', 'gravwell/frontend', '--token', 'secret', '--source', 'release/*', '--target', 'main'];
+
+/** Parses the arguments, failing the test if they're only asking for help */
+const parse = (args: string[], env: Record<string, string> = {}): CLIOptions => {
+	const options = parseCommandLine(args, env);
+	expect(options).not.toBeNull();
+	return options as CLIOptions;
+};
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('parseCommandLine', () => {
+	test('reads inputs from flags, falling back to the defaults in action.yml', () => {
+		const { inputs } = parse([...required, '--dry-run', 'true', '--target-conflict-label', 'conflict']);
+
+		expect(inputs('source_pattern')).toBe('release/*');
+		expect(inputs('target_pattern')).toBe('main');
+		expect(inputs('dry_run')).toBe('true');
+		expect(inputs('target_conflict_label')).toBe('conflict');
+		expect(inputs('pr_title')).toBe('chore: Merge {{{ original_source }}} into {{{ target }}}');
+		expect(inputs('config_file')).toBe('');
+	});
+
+	test('joins repeated flags into a list', () => {
+		const { inputs } = parse([...required, '--source', 'hotfix/*', '--reviewers', 'alice', '--reviewers', 'bob']);
+
+		expect(inputs('source_pattern')).toBe('release/*\nhotfix/*');
+		expect(inputs('reviewers')).toBe('alice\nbob');
+	});
+
+	test('reads tokens and the API URL from the environment', () => {
+		const options = parse(['--repo', 'gravwell/frontend'], {
+			GITHUB_TOKEN: 'from-env',
+			PR_CREATE_TOKEN: 'pat',
+			GITHUB_API_URL: 'https://github.example.com/api/v3',
+		});
+
+		expect(options).toEqual(
+			expect.objectContaining({
+				token: 'from-env',
+				prToken: 'pat',
+				baseUrl: 'https://github.example.com/api/v3',
+			}),
+		);
+		expect(parse([...required, '--base-url', 'https://ghe.test/api/v3']).baseUrl).toBe('https://ghe.test/api/v3');
+	});
+
+	test('reconciles every source branch, unless a push is given', () => {
+		const repository = { name: 'frontend', owner: { login: 'gravwell' } };
+
+		expect(parse(required).syncEvent).toEqual({ name: 'schedule', event: { schedule: '', repository } });
+		expect(parse([...required, '--push', 'release/1.0']).syncEvent).toEqual({
+			name: 'push',
+			event: { ref: 'refs/heads/release/1.0', after: '', commits: [], head_commit: null, repository },
+		});
+	});
+
+	test('rejects missing and unknown arguments', () => {
+		expect(() => parseCommandLine(['--token', 'secret'], {})).toThrow('--repo must look like "owner/name"');
+		expect(() => parseCommandLine(['--repo', 'gravwell/frontend'], {})).toThrow('--token');
+		expect(() => parseCommandLine([...required, '--sorce', 'main'], {})).toThrow("Unknown option '--sorce'");
+	});
+
+	test('returns null for --help', () => {
+		expect(parseCommandLine(['--help'], {})).toBeNull();
+	});
+});
+
+test('syncs with the parsed options', async () => {
+	for (const quiet of ['debug', 'info', 'warning', 'notice'] as const) {
+		jest.spyOn(core, quiet).mockImplementation(() => undefined);
+	}
+	const github = new FakeGitHub();
+	github.commit('main', { files: { 'README.md': 'Hello' } });
+	github.branch('release/1.0', 'main');
+	github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+
+	const { syncEvent, inputs } = parse([...required, '--use-intermediate-branch', 'false']);
+	const outputs = await updateSyncPRs({ actionsOctokit: github.octokit(), patOctokit: null, syncEvent, inputs });
+
+	expect(github.pulls).toEqual([expect.objectContaining({ head: 'release/1.0', base: 'main' })]);
+	expect(outputs.syncedPRs).toEqual([expect.objectContaining({ sourceBranch: 'release/1.0', targetBranch: 'main' })]);
+	expect(outputs.failure).toBeNull();
+});
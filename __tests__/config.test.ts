@@ -0,0 +1,22 @@
+import { syncConfig } from '../src/config';
+
+describe('syncConfig', () => {
+	test('reads rules', () => {
+		expect(
+			syncConfig.verify({
+				rules: [{ name: 'release-to-main', source_pattern: 'release/*', target_pattern: ['main'], draft: 'conflicts' }],
+			}),
+		).toEqual({
+			rules: [{ name: 'release-to-main', source_pattern: ['release/*'], target_pattern: ['main'], draft: 'conflicts' }],
+		});
+	});
+
+	test('rejects misspelled fields', () => {
+		const rule = { name: 'release-to-main', source_pattern: 'release/*', target_pattern: 'main' };
+
+		expect(() => syncConfig.verify({ rules: [{ ...rule, use_intermediate_branches: true }] })).toThrow(
+			'use_intermediate_branches',
+		);
+		expect(() => syncConfig.verify({ rules: [rule], rule: [] })).toThrow('rule');
+	});
+});
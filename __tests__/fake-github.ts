@@ -0,0 +1,664 @@
+import { Octokit } from '@octokit/action';
+import { createTokenAuth } from '@octokit/auth-token';
+import { createHash } from 'crypto';
+
+/** A commit in the fake repo. Every commit holds a snapshot of every file. */
+export type FakeCommit = {
+	sha: string;
+	message: string;
+	parents: string[];
+	files: Record<string, string>;
+	/** The GitHub login of the author, or null if they aren't a GitHub user */
+	author: string | null;
+};
+
+export type FakePR = {
+	number: number;
+	title: string;
+	body: string | null;
+	head: string;
+	/** The repository "head" is in, as "owner/repo" */
+	headRepo: string;
+	base: string;
+	state: 'open' | 'closed';
+	merged_at: string | null;
+	created_at: string;
+	labels: string[];
+	assignees: string[];
+	requested_reviewers: string[];
+	auto_merge: Record<string, unknown> | null;
+	draft: boolean;
+};
+
+export type FakeComment = {
+	id: number;
+	issue_number: number;
+	body: string;
+	minimized: boolean;
+};
+
+/** A request the fake should fail, instead of handling it */
+type Failure = {
+	method: string;
+	path: RegExp;
+	status: number;
+	message: string;
+	/** How many more matching requests should fail */
+	remaining: number;
+	headers: Record<string, string>;
+};
+
+type Route = {
+	method: string;
+	path: RegExp;
+	handle: (params: string[], body: Record<string, unknown>, query: URLSearchParams) => FakeResponse;
+};
+
+type FakeResponse = { status: number; data?: unknown; headers?: Record<string, string> };
+
+class FakeError extends Error {
+	readonly status: number;
+	readonly headers: Record<string, string>;
+
+	constructor(status: number, message: string, headers: Record<string, string> = {}) {
+		super(message);
+		this.status = status;
+		this.headers = headers;
+	}
+}
+
+/**
+ * An in-process stand-in for the parts of the GitHub API sync-branches uses: branches, refs, merges (which conflict
+ * when both sides changed a file differently), comparisons, PRs, labels, comments and a few GraphQL mutations.
+ *
+ * Set up the repo with commit(), branch() and openPR(), pass octokit() to the code under test, then inspect the state.
+ * fork() adds another repository to the same fork network, which shares commits with this one.
+ */
+export class FakeGitHub {
+	readonly owner: string;
+	readonly repo: string;
+
+	/** Every commit in the fork network */
+	readonly commits: Map<string, FakeCommit>;
+	/** Branch names to the SHA they point at */
+	readonly branches = new Map<string, string>();
+	readonly pulls: FakePR[] = [];
+	readonly comments: FakeComment[] = [];
+	/** Every request that changed something, like "POST /repos/gravwell/frontend/merges" */
+	readonly writes: string[] = [];
+
+	private readonly trees: Map<string, Record<string, string>>;
+	/** Every repository in the fork network, including this one */
+	private readonly network: FakeGitHub[];
+	private readonly failures: Failure[] = [];
+	private readonly requests: { method: string; path: string; token: string | null }[] = [];
+	private readonly routes: Route[];
+	private nextId = 1;
+
+	constructor(
+		{ owner = 'gravwell', repo = 'frontend' }: { owner?: string; repo?: string } = {},
+		upstream?: FakeGitHub,
+	) {
+		this.owner = owner;
+		this.repo = repo;
+		this.commits = upstream?.commits ?? new Map();
+		this.trees = upstream?.trees ?? new Map();
+		this.network = upstream?.network ?? [];
+		this.network.push(this);
+
+		const prefix = `^/repos/${this.owner}/${this.repo}`;
+		const route = (method: string, path: string, handle: Route['handle']): Route => ({
+			method,
+			path: new RegExp(`${prefix}${path}$`),
+			handle,
+		});
+
+		this.routes = [
+			route('GET', '/branches', () => ({
+				status: 200,
+				// Like GitHub, branches are listed by name
+				data: [...this.branches.keys()].sort().map(name => ({ name, commit: { sha: this.branchSHA(name) } })),
+			})),
+			route('GET', '/branches/(.+)', ([name]) => ({ status: 200, data: this.branchJSON(name ?? '') })),
+			route('GET', '/git/matching-refs/heads/(.*)', ([prefix]) => ({
+				status: 200,
+				data: [...this.branches.keys()]
+					.filter(name => name.startsWith(prefix ?? ''))
+					.map(name => ({ ref: `refs/heads/${name}`, object: { sha: this.branchSHA(name) } })),
+			})),
+			route('POST', '/git/refs', (_, body) => this.createRef(`${body.ref}`, `${body.sha}`)),
+			route('PATCH', '/git/refs/heads/(.+)', ([name], body) =>
+				this.updateRef(name ?? '', `${body.sha}`, body.force === true),
+			),
+			route('DELETE', '/git/refs/heads/(.+)', ([name]) => this.deleteRef(name ?? '')),
+			route('POST', '/git/commits', (_, body) => this.createCommit(body)),
+			route('POST', '/merges', (_, body) => this.merge(body)),
+			route('GET', '/compare/(.+)\\.\\.\\.(.+)', ([base, head]) => ({
+				status: 200,
+				data: this.compare(base ?? '', head ?? ''),
+			})),
+			route('GET', '/pulls', (_, __, query) => ({ status: 200, data: this.listPulls(query) })),
+			route('POST', '/pulls', (_, body) => this.createPR(body)),
+			route('PATCH', '/pulls/(\\d+)', ([n], body) => this.updatePR(this.findPR(n), body)),
+			route('POST', '/pulls/(\\d+)/requested_reviewers', ([n], body) => {
+				const pr = this.findPR(n);
+				pr.requested_reviewers.push(...((body.reviewers ?? []) as string[]));
+				return { status: 201, data: this.prJSON(pr) };
+			}),
+			route('POST', '/issues/(\\d+)/labels', ([n], body) => {
+				const pr = this.findPR(n);
+				pr.labels.push(...(body.labels as string[]).filter(l => pr.labels.includes(l) === false));
+				return { status: 200, data: pr.labels.map(name => ({ name })) };
+			}),
+			route('DELETE', '/issues/(\\d+)/labels/(.+)', ([n, name]) => {
+				const pr = this.findPR(n);
+				if (pr.labels.includes(name ?? '') === false) {
+					throw new FakeError(404, 'Label does not exist');
+				}
+				pr.labels.splice(pr.labels.indexOf(name ?? ''), 1);
+				return { status: 200, data: pr.labels.map(label => ({ name: label })) };
+			}),
+			route('POST', '/issues/(\\d+)/assignees', ([n], body) => {
+				const pr = this.findPR(n);
+				pr.assignees.push(...(body.assignees as string[]));
+				return { status: 201, data: this.prJSON(pr) };
+			}),
+			route('GET', '/issues/(\\d+)/comments', ([n]) => ({
+				status: 200,
+				data: this.comments.filter(c => c.issue_number === Number(n)).map(c => this.commentJSON(c)),
+			})),
+			route('POST', '/issues/(\\d+)/comments', ([n], body) => {
+				const comment = {
+					id: this.nextId++,
+					issue_number: this.findPR(n).number,
+					body: `${body.body}`,
+					minimized: false,
+				};
+				this.comments.push(comment);
+				return { status: 201, data: this.commentJSON(comment) };
+			}),
+			route('PATCH', '/issues/comments/(\\d+)', ([id], body) => {
+				const comment = this.comments.find(c => c.id === Number(id));
+				if (comment === undefined) {
+					throw new FakeError(404, 'Not Found');
+				}
+				comment.body = `${body.body}`;
+				return { status: 200, data: this.commentJSON(comment) };
+			}),
+			route('POST', '/actions/workflows/([^/]+)/dispatches', () => ({ status: 204 })),
+		];
+	}
+
+	/**
+	 * Commits "files" on top of "branch", creating the branch if it doesn't exist. Files that aren't mentioned are
+	 * kept as they were. Returns the new commit's SHA.
+	 *
+	 * If "merge" is given, the commit is a merge of that branch into "branch", like a conflict resolved by hand. Files
+	 * that aren't mentioned are taken from "branch", or else from "merge".
+	 */
+	commit(
+		branch: string,
+		{
+			message = 'Change things',
+			files,
+			author = 'octocat',
+			merge,
+		}: { message?: string; files: Record<string, string>; author?: string | null; merge?: string },
+	): string {
+		const parent = this.branches.get(branch);
+		const parentFiles = parent === undefined ? {} : this.getCommit(parent).files;
+		const merged = merge === undefined ? undefined : this.resolve(merge);
+		const mergedFiles = merged === undefined ? {} : this.getCommit(merged).files;
+		const sha = this.addCommit({
+			message,
+			parents: [parent, merged].filter((p): p is string => p !== undefined),
+			files: { ...mergedFiles, ...parentFiles, ...files },
+			author,
+		});
+		this.branches.set(branch, sha);
+		return sha;
+	}
+
+	/** Forks this repository into "owner", copying its branches */
+	fork(owner: string): FakeGitHub {
+		const fork = new FakeGitHub({ owner, repo: this.repo }, this);
+		for (const [name, sha] of this.branches) {
+			fork.branches.set(name, sha);
+		}
+		return fork;
+	}
+
+	/** Creates "name" pointing at the head of "from" */
+	branch(name: string, from: string): void {
+		this.branches.set(name, this.branchSHA(from));
+	}
+
+	/** Opens a PR without recording it as a write */
+	openPR({
+		head,
+		headRepo = `${this.owner}/${this.repo}`,
+		base,
+		title = `${head} => ${base}`,
+		body = null,
+		labels = [],
+		draft = false,
+	}: {
+		head: string;
+		headRepo?: string;
+		base: string;
+		title?: string;
+		body?: string | null;
+		labels?: string[];
+		draft?: boolean;
+	}): FakePR {
+		const pr: FakePR = {
+			number: this.nextId++,
+			title,
+			body,
+			head,
+			headRepo,
+			base,
+			state: 'open',
+			merged_at: null,
+			created_at: new Date(Date.UTC(2023, 0, 1, 0, 0, this.nextId)).toISOString(),
+			labels: [...labels],
+			assignees: [],
+			requested_reviewers: [],
+			auto_merge: null,
+			draft,
+		};
+		this.pulls.push(pr);
+		return pr;
+	}
+
+	/**
+	 * Makes requests matching the method and path fail with the given status. Every matching request fails, unless
+	 * "times" is set.
+	 */
+	fail(
+		method: string,
+		path: RegExp,
+		status: number,
+		message = 'Injected failure',
+		{ times = Infinity, headers = {} }: { times?: number; headers?: Record<string, string> } = {},
+	): void {
+		this.failures.push({ method, path, status, message, remaining: times, headers });
+	}
+
+	/**
+	 * How many requests matching the method and path were received, including failed ones. If "token" is given, only
+	 * requests made with that token are counted.
+	 */
+	requestCount(method: string, path: RegExp, token?: string): number {
+		return this.requests.filter(
+			r => r.method === method && path.test(r.path) && (token === undefined || r.token === token),
+		).length;
+	}
+
+	/** true if "ancestor" is "sha" or one of its ancestors */
+	isAncestor(ancestor: string, sha: string): boolean {
+		return this.ancestors(sha).has(ancestor);
+	}
+
+	getCommit(sha: string): FakeCommit {
+		const commit = this.commits.get(sha);
+		if (commit === undefined) {
+			throw new FakeError(404, `No commit found for SHA: ${sha}`);
+		}
+		return commit;
+	}
+
+	/**
+	 * Creates an Octokit that sends every request to this fake, or the repository in its fork network it names. Requests
+	 * are authenticated with "token", so tests can tell which Octokit made them.
+	 */
+	octokit(token = 'fake-token'): Octokit {
+		return new Octokit({
+			authStrategy: () => createTokenAuth(token),
+			request: { fetch: async (url: string, init: RequestInit) => this.fetch(url, init) },
+		});
+	}
+
+	private async fetch(url: string, init: RequestInit): Promise<Response> {
+		const { pathname, searchParams } = new URL(url);
+		const path = decodeURIComponent(pathname);
+		const method = init.method ?? 'GET';
+		const body = typeof init.body === 'string' && init.body !== '' ? JSON.parse(init.body) : {};
+		const token = new Headers(init.headers).get('authorization')?.replace(/^token /, '') ?? null;
+
+		const target = this.network.find(r => path.startsWith(`/repos/${r.owner}/${r.repo}/`)) ?? this;
+
+		let response: FakeResponse;
+		try {
+			response = target.handle(method, path, body, searchParams, token);
+		} catch (err) {
+			if (!(err instanceof FakeError)) {
+				throw err;
+			}
+			response = { status: err.status, data: { message: err.message }, headers: err.headers };
+		}
+
+		return new Response(response.status === 204 ? null : JSON.stringify(response.data), {
+			status: response.status,
+			headers: { 'content-type': 'application/json; charset=utf-8', ...response.headers },
+		});
+	}
+
+	private handle(
+		method: string,
+		path: string,
+		body: Record<string, unknown>,
+		query: URLSearchParams,
+		token: string | null,
+	): FakeResponse {
+		this.requests.push({ method, path, token });
+		const failure = this.failures.find(f => f.method === method && f.path.test(path) && f.remaining > 0);
+		if (failure !== undefined) {
+			failure.remaining--;
+			throw new FakeError(failure.status, failure.message, failure.headers);
+		}
+
+		if (method !== 'GET') {
+			this.writes.push(`${method} ${path}`);
+		}
+
+		if (method === 'POST' && path === '/graphql') {
+			return this.graphql(body);
+		}
+
+		for (const { method: m, path: p, handle } of this.routes) {
+			const match = path.match(p);
+			if (m === method && match !== null) {
+				return handle(match.slice(1), body, query);
+			}
+		}
+		throw new FakeError(404, `The fake GitHub doesn't handle ${method} ${path}`);
+	}
+
+	private graphql({ query, variables }: Record<string, unknown>): FakeResponse {
+		const id = (variables as { id?: string } | undefined)?.id ?? '';
+		const comment = this.comments.find(c => `comment-${c.id}` === id);
+		const pr = this.pulls.find(p => `pr-${p.number}` === id);
+
+		if (`${query}`.includes('unminimizeComment') && comment !== undefined) {
+			comment.minimized = false;
+		} else if (`${query}`.includes('minimizeComment') && comment !== undefined) {
+			comment.minimized = true;
+		} else if (`${query}`.includes('disablePullRequestAutoMerge') && pr !== undefined) {
+			pr.auto_merge = null;
+		} else if (`${query}`.includes('enablePullRequestAutoMerge') && pr !== undefined) {
+			pr.auto_merge = { merge_method: (variables as { mergeMethod?: string }).mergeMethod };
+		} else if (`${query}`.includes('convertPullRequestToDraft') && pr !== undefined) {
+			pr.draft = true;
+		} else if (`${query}`.includes('markPullRequestReadyForReview') && pr !== undefined) {
+			pr.draft = false;
+		} else {
+			throw new FakeError(400, `The fake GitHub doesn't handle this GraphQL query: ${query}`);
+		}
+		return { status: 200, data: { data: {} } };
+	}
+
+	private addCommit(commit: Omit<FakeCommit, 'sha'>): string {
+		const sha = createHash('sha1').update(`${this.owner}/${this.repo} commit ${this.nextId++}`).digest('hex');
+		this.commits.set(sha, { ...commit, sha });
+		this.trees.set(`tree-${sha}`, commit.files);
+		return sha;
+	}
+
+	private branchSHA(name: string): string {
+		const sha = this.branches.get(name);
+		if (sha === undefined) {
+			throw new FakeError(404, 'Branch not found');
+		}
+		return sha;
+	}
+
+	/** Resolves a branch name, "owner:branch" or SHA to a SHA */
+	private resolve(refOrSHA: string): string {
+		const [repo, branch] = this.inNetwork(refOrSHA);
+		return repo?.branches.get(branch) ?? this.getCommit(refOrSHA).sha;
+	}
+
+	/** Splits "owner:branch" into the repository in the fork network and the branch. Plain branches are in this one. */
+	private inNetwork(head: string): [FakeGitHub | undefined, string] {
+		const match = head.match(/^([^:]+):(.+)$/);
+		if (match === null) {
+			return [this, head];
+		}
+		return [this.network.find(r => r.owner === match[1]), match[2] ?? ''];
+	}
+
+	private ancestors(sha: string): Set<string> {
+		const seen = new Set<string>();
+		const queue = [sha];
+		for (let next = queue.shift(); next !== undefined; next = queue.shift()) {
+			if (seen.has(next) === false) {
+				seen.add(next);
+				queue.push(...this.getCommit(next).parents);
+			}
+		}
+		return seen;
+	}
+
+	private mergeBase(a: string, b: string): string | null {
+		const ofA = this.ancestors(a);
+		const queue = [b];
+		for (let next = queue.shift(); next !== undefined; next = queue.shift()) {
+			if (ofA.has(next)) {
+				return next;
+			}
+			queue.push(...this.getCommit(next).parents);
+		}
+		return null;
+	}
+
+	private commitJSON({ sha, message, parents, author }: FakeCommit): Record<string, unknown> {
+		return {
+			sha,
+			commit: { message, tree: { sha: `tree-${sha}` }, author: { name: author ?? 'Someone' } },
+			parents: parents.map(p => ({ sha: p })),
+			author: author === null ? null : { login: author },
+		};
+	}
+
+	private branchJSON(name: string): Record<string, unknown> {
+		return { name, commit: this.commitJSON(this.getCommit(this.branchSHA(name))) };
+	}
+
+	private createRef(ref: string, sha: string): FakeResponse {
+		const name = ref.replace(/^refs\/heads\//, '');
+		if (this.branches.has(name)) {
+			throw new FakeError(422, 'Reference already exists');
+		}
+		this.branches.set(name, this.getCommit(sha).sha);
+		return { status: 201, data: { ref, object: { sha } } };
+	}
+
+	private updateRef(name: string, sha: string, force: boolean): FakeResponse {
+		const current = this.branches.get(name);
+		if (current === undefined) {
+			throw new FakeError(422, 'Reference does not exist');
+		}
+		if (force === false && this.isAncestor(current, sha) === false) {
+			throw new FakeError(422, 'Update is not a fast forward');
+		}
+		this.branches.set(name, this.getCommit(sha).sha);
+		return { status: 200, data: { ref: `refs/heads/${name}`, object: { sha } } };
+	}
+
+	private deleteRef(name: string): FakeResponse {
+		if (this.branches.delete(name) === false) {
+			throw new FakeError(422, 'Reference does not exist');
+		}
+		return { status: 204 };
+	}
+
+	private createCommit({ message, tree, parents }: Record<string, unknown>): FakeResponse {
+		const files = this.trees.get(`${tree}`);
+		if (files === undefined) {
+			throw new FakeError(422, 'Tree SHA does not exist');
+		}
+		const sha = this.addCommit({ message: `${message}`, parents: parents as string[], files, author: null });
+		return { status: 201, data: this.commitJSON(this.getCommit(sha)) };
+	}
+
+	/** Three-way merges "head" into the "base" branch, like POST /merges */
+	private merge({ base, head, commit_message }: Record<string, unknown>): FakeResponse {
+		const ours = this.branches.get(`${base}`);
+		if (ours === undefined) {
+			throw new FakeError(404, 'Base does not exist');
+		}
+		let theirs: string;
+		try {
+			theirs = this.resolve(`${head}`);
+		} catch {
+			throw new FakeError(404, 'Head does not exist');
+		}
+
+		if (this.isAncestor(theirs, ours)) {
+			return { status: 204 };
+		}
+
+		const ancestor = this.mergeBase(ours, theirs);
+		const baseFiles = ancestor === null ? {} : this.getCommit(ancestor).files;
+		const ourFiles = this.getCommit(ours).files;
+		const theirFiles = this.getCommit(theirs).files;
+
+		const files: Record<string, string> = {};
+		for (const file of new Set([...Object.keys(ourFiles), ...Object.keys(theirFiles)])) {
+			const [b, o, t] = [baseFiles[file], ourFiles[file], theirFiles[file]];
+			let merged: string | undefined;
+			if (o === t || t === b) {
+				merged = o;
+			} else if (o === b) {
+				merged = t;
+			} else {
+				throw new FakeError(409, 'Merge conflict');
+			}
+			if (merged !== undefined) {
+				files[file] = merged;
+			}
+		}
+
+		const sha = this.addCommit({
+			message: typeof commit_message === 'string' ? commit_message : `Merge ${head} into ${base}`,
+			parents: [ours, theirs],
+			files,
+			author: null,
+		});
+		this.branches.set(`${base}`, sha);
+		return { status: 201, data: this.commitJSON(this.getCommit(sha)) };
+	}
+
+	/** Compares two branches or SHAs, like GET /compare/base...head */
+	private compare(base: string, head: string): Record<string, unknown> {
+		const [baseSHA, headSHA] = [this.resolve(base), this.resolve(head)];
+		const [ofBase, ofHead] = [this.ancestors(baseSHA), this.ancestors(headSHA)];
+		const ahead = [...ofHead].filter(sha => ofBase.has(sha) === false).reverse();
+		const behind = [...ofBase].filter(sha => ofHead.has(sha) === false);
+
+		const ancestor = this.mergeBase(baseSHA, headSHA);
+		const before = ancestor === null ? {} : this.getCommit(ancestor).files;
+		const after = this.getCommit(headSHA).files;
+		const changed = [...new Set([...Object.keys(before), ...Object.keys(after)])].filter(f => before[f] !== after[f]);
+
+		return {
+			status:
+				ahead.length === 0
+					? behind.length === 0
+						? 'identical'
+						: 'behind'
+					: behind.length === 0
+					? 'ahead'
+					: 'diverged',
+			ahead_by: ahead.length,
+			behind_by: behind.length,
+			commits: ahead.map(sha => this.commitJSON(this.getCommit(sha))),
+			files: changed.map(filename => ({ filename })),
+		};
+	}
+
+	private findPR(number: string | undefined): FakePR {
+		const pr = this.pulls.find(p => p.number === Number(number));
+		if (pr === undefined) {
+			throw new FakeError(404, 'Not Found');
+		}
+		return pr;
+	}
+
+	private prJSON(pr: FakePR): Record<string, unknown> {
+		const repo = { full_name: `${this.owner}/${this.repo}` };
+		const headRepo = this.network.find(r => `${r.owner}/${r.repo}` === pr.headRepo);
+		return {
+			number: pr.number,
+			node_id: `pr-${pr.number}`,
+			html_url: `https://github.com/${this.owner}/${this.repo}/pull/${pr.number}`,
+			title: pr.title,
+			body: pr.body,
+			state: pr.state,
+			merged_at: pr.merged_at,
+			created_at: pr.created_at,
+			labels: pr.labels.map(name => ({ name })),
+			assignees: pr.assignees.map(login => ({ login })),
+			user: { login: 'github-actions[bot]' },
+			auto_merge: pr.auto_merge,
+			draft: pr.draft,
+			head: { ref: pr.head, sha: headRepo?.branches.get(pr.head) ?? '', repo: { full_name: pr.headRepo } },
+			base: { ref: pr.base, sha: this.branches.get(pr.base) ?? '', repo },
+		};
+	}
+
+	private commentJSON({ id, body }: FakeComment): Record<string, unknown> {
+		return { id, node_id: `comment-${id}`, body };
+	}
+
+	private listPulls(query: URLSearchParams): Record<string, unknown>[] {
+		const state = query.get('state') ?? 'open';
+		const base = query.get('base');
+		const [headRepo, head] = this.inNetwork(query.get('head') ?? '');
+		return this.pulls
+			.filter(p => state === 'all' || p.state === state)
+			.filter(p => base === null || p.base === base)
+			.filter(p => head === '' || (p.head === head && p.headRepo === `${headRepo?.owner}/${headRepo?.repo}`))
+			.map(p => this.prJSON(p));
+	}
+
+	private createPR({ title, body, head, base, draft }: Record<string, unknown>): FakeResponse {
+		const [headRepo = this, headBranch] = this.inNetwork(`${head}`);
+		const [headSHA, baseSHA] = [headRepo.branchSHA(headBranch), this.branchSHA(`${base}`)];
+		const headRepoName = `${headRepo.owner}/${headRepo.repo}`;
+		if (
+			this.pulls.some(
+				p => p.state === 'open' && p.head === headBranch && p.headRepo === headRepoName && p.base === base,
+			)
+		) {
+			throw new FakeError(422, `A pull request already exists for ${headRepo.owner}:${headBranch}.`);
+		}
+		if (this.isAncestor(headSHA, baseSHA)) {
+			throw new FakeError(422, `No commits between ${base} and ${head}`);
+		}
+
+		const pr = this.openPR({
+			head: headBranch,
+			headRepo: headRepoName,
+			base: `${base}`,
+			title: `${title}`,
+			body: typeof body === 'string' ? body : null,
+			draft: draft === true,
+		});
+		return { status: 201, data: this.prJSON(pr) };
+	}
+
+	private updatePR(pr: FakePR, { title, body, state }: Record<string, unknown>): FakeResponse {
+		if (typeof title === 'string') {
+			pr.title = title;
+		}
+		if (typeof body === 'string') {
+			pr.body = body;
+		}
+		if (state === 'open' || state === 'closed') {
+			pr.state = state;
+		}
+		return { status: 200, data: this.prJSON(pr) };
+	}
+}
@@ -0,0 +1,73 @@
+import { join } from 'path';
+import { checkEventEnv, checkPushEventEnv } from '../src/github-events';
+
+const fixture = (name: string): string => join(__dirname, 'fixtures', name);
+
+const env = { ...process.env };
+
+beforeEach(() => {
+	process.env.GITHUB_REPOSITORY = 'gravwell/frontend';
+});
+
+afterEach(() => {
+	process.env = { ...env };
+});
+
+describe('checkPushEventEnv', () => {
+	test('reads the push event payload', async () => {
+		process.env.GITHUB_EVENT_PATH = fixture('push.json');
+
+		await expect(checkPushEventEnv()).resolves.toEqual({
+			ref: 'refs/heads/release/1.0',
+			after: '9a8c7f3d2b1e4f5a6b7c8d9e0f1a2b3c4d5e6f70',
+			commits: [
+				{
+					id: '9a8c7f3d2b1e4f5a6b7c8d9e0f1a2b3c4d5e6f70',
+					message: 'Fix the thing (#12)',
+					added: [],
+					removed: [],
+					modified: ['app.ts'],
+				},
+			],
+			head_commit: { id: '9a8c7f3d2b1e4f5a6b7c8d9e0f1a2b3c4d5e6f70', message: 'Fix the thing (#12)' },
+			repository: { name: 'frontend', owner: { login: 'gravwell' } },
+		});
+	});
+
+	test('defaults the commits of payloads without them', async () => {
+		process.env.GITHUB_EVENT_PATH = fixture('push-without-commits.json');
+
+		await expect(checkPushEventEnv()).resolves.toEqual(expect.objectContaining({ commits: [], head_commit: null }));
+	});
+
+	test('rejects payloads of other events', async () => {
+		process.env.GITHUB_EVENT_PATH = fixture('schedule.json');
+
+		await expect(checkPushEventEnv()).rejects.toThrow();
+	});
+
+	test('requires the event path', async () => {
+		delete process.env.GITHUB_EVENT_PATH;
+
+		await expect(checkPushEventEnv()).rejects.toThrow('Expected non-nil event path');
+	});
+});
+
+describe('checkEventEnv', () => {
+	test('tags the payload with the event name', async () => {
+		process.env.GITHUB_EVENT_NAME = 'schedule';
+		process.env.GITHUB_EVENT_PATH = fixture('schedule.json');
+
+		await expect(checkEventEnv()).resolves.toEqual({
+			name: 'schedule',
+			event: { schedule: '0 * * * *', repository: { name: 'frontend', owner: { login: 'gravwell' } } },
+		});
+	});
+
+	test('rejects unsupported events', async () => {
+		process.env.GITHUB_EVENT_NAME = 'issues';
+		process.env.GITHUB_EVENT_PATH = fixture('schedule.json');
+
+		await expect(checkEventEnv()).rejects.toThrow('Got "issues"');
+	});
+});
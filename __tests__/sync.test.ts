@@ -0,0 +1,931 @@
+import { syncMarker } from '../src/templates';
+import { runAction } from '../src/action';
+import { cleanUpActionEnv, setUpAction } from './action-env';
+import { FakeGitHub } from './fake-github';
+
+const pushTo = (branch: string): Record<string, unknown> => ({ ref: `refs/heads/${branch}` });
+
+const inputs = {
+	source_pattern: 'release/*',
+	target_pattern: 'main',
+	use_intermediate_branch: 'true',
+	target_conflict_label: 'conflict:target',
+};
+
+let github: FakeGitHub;
+
+beforeEach(() => {
+	github = new FakeGitHub();
+	github.commit('main', { message: 'Initial commit', files: { 'README.md': 'Hello' } });
+	github.branch('release/1.0', 'main');
+});
+
+afterEach(() => jest.restoreAllMocks());
+afterAll(cleanUpActionEnv);
+
+/** The SHA at the head of the branch. Fails the test if the branch doesn't exist. */
+const head = (branch: string): string => {
+	const sha = github.branches.get(branch);
+	expect(sha).toBeDefined();
+	return sha ?? '';
+};
+
+describe('push to a source branch', () => {
+	test('opens a sync PR from an intermediate branch', async () => {
+		const fix = github.commit('release/1.0', { message: 'Fix the thing (#12)', files: { 'app.ts': 'fixed' } });
+
+		const run = setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls).toHaveLength(1);
+		const [pr] = github.pulls;
+		expect(pr?.base).toBe('main');
+		expect(pr?.head).toMatch(/^merge\/release-1\.0_to_main-[0-9a-f]{8}$/);
+		expect(pr?.title).toBe('chore: Merge release/1.0 into main');
+		expect(pr?.body).toContain(syncMarker({ source: 'release/1.0', target: 'main' }));
+		expect(github.isAncestor(fix, head(pr?.head ?? ''))).toBe(true);
+
+		expect(run.outputs.syncedPRs).toEqual([
+			expect.objectContaining({ sourceBranch: 'release/1.0', targetBranch: 'main', headBranch: pr?.head }),
+		]);
+		expect(run.outputs.errors).toEqual([]);
+		expect(run.failures).toEqual([]);
+	});
+
+	test('opens a direct sync PR without an intermediate branch', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+
+		setUpAction(github, { fixture: 'push.json', inputs: { ...inputs, use_intermediate_branch: 'false' } });
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls).toEqual([expect.objectContaining({ head: 'release/1.0', base: 'main' })]);
+		expect([...github.branches.keys()].sort()).toEqual(['main', 'release/1.0']);
+	});
+
+	test('merges new commits into the existing sync PR', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+
+		const second = github.commit('release/1.0', { files: { 'app.ts': 'fixed again' } });
+		const run = setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls).toHaveLength(1);
+		expect(github.isAncestor(second, head(pr?.head ?? ''))).toBe(true);
+		expect(run.outputs.syncedPRs).toEqual([
+			expect.objectContaining({ url: expect.stringContaining(`/${pr?.number}`) }),
+		]);
+	});
+
+	test('leaves an up to date sync PR alone', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+		const branches = new Map(github.branches);
+		const pulls = JSON.parse(JSON.stringify(github.pulls));
+
+		const run = setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+
+		expect(github.branches).toEqual(branches);
+		expect(github.pulls).toEqual(pulls);
+		expect(run.outputs.syncedPRs).toEqual([]);
+	});
+
+	test('labels and comments on a sync PR that conflicts with the target branch', async () => {
+		github.commit('release/1.0', { files: { 'README.md': 'Hello from 1.0' } });
+		github.commit('main', { files: { 'README.md': 'Hello from main' } });
+
+		const run = setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls).toHaveLength(1);
+		const [pr] = github.pulls;
+		expect(pr?.labels).toEqual(['conflict:target']);
+		expect(github.comments).toEqual([
+			expect.objectContaining({ issue_number: pr?.number, body: expect.stringContaining('`README.md`') }),
+		]);
+		expect(run.failures).toEqual([]);
+	});
+
+	test('fails on conflicts with fail_on: any', async () => {
+		github.commit('release/1.0', { files: { 'README.md': 'Hello from 1.0' } });
+		github.commit('main', { files: { 'README.md': 'Hello from main' } });
+
+		const run = setUpAction(github, { fixture: 'push.json', inputs: { ...inputs, fail_on: 'any' } });
+		await runAction(github.octokit(), null);
+
+		expect(run.failures).toEqual([expect.stringContaining('merge conflicts')]);
+	});
+
+	test('enables auto-merge on a sync PR without conflicts, and disables it on conflicts', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		const autoMergeInputs = { ...inputs, auto_merge: 'true', auto_merge_method: 'squash' };
+
+		let run = setUpAction(github, { fixture: 'push.json', inputs: autoMergeInputs });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+
+		expect(pr?.auto_merge).toEqual({ merge_method: 'SQUASH' });
+		expect(run.warnings).toEqual([]);
+
+		github.commit('release/1.0', { files: { 'README.md': 'Hello from 1.0' } });
+		github.commit('main', { files: { 'README.md': 'Hello from main' } });
+		run = setUpAction(github, { fixture: 'push.json', inputs: autoMergeInputs });
+		await runAction(github.octokit(), null);
+
+		expect(pr?.auto_merge).toBeNull();
+		expect(run.warnings).not.toContainEqual(expect.stringContaining('auto-merge'));
+	});
+
+	test('keeps a conflicted sync PR as a draft until its conflicts are resolved, with draft: conflicts', async () => {
+		github.commit('release/1.0', { files: { 'README.md': 'Hello from 1.0' } });
+		github.commit('main', { files: { 'README.md': 'Hello from main' } });
+		const draftInputs = { ...inputs, draft: 'conflicts', reviewers: 'alice' };
+
+		setUpAction(github, { fixture: 'push.json', inputs: draftInputs });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+
+		expect(pr?.draft).toBe(true);
+		expect(pr?.requested_reviewers).toEqual([]);
+
+		// Resolve the conflict on the intermediate branch by hand
+		github.commit(pr?.head ?? '', { files: { 'README.md': 'Hello from main' } });
+		const run = setUpAction(github, { fixture: 'push.json', inputs: draftInputs });
+		await runAction(github.octokit(), null);
+
+		expect(pr?.draft).toBe(false);
+		expect(pr?.labels).toEqual([]);
+		expect(pr?.requested_reviewers).toEqual(['alice']);
+		expect(run.outputs.syncedPRs).toEqual([
+			expect.objectContaining({ url: expect.stringContaining(`/${pr?.number}`) }),
+		]);
+	});
+
+	test('requests reviews with PR_CREATE_TOKEN, which can see team reviewers', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+
+		setUpAction(github, { fixture: 'push.json', inputs: { ...inputs, reviewers: 'alice', team_reviewers: 'qa' } });
+		await runAction(github.octokit(), github.octokit('pat'));
+		const [pr] = github.pulls;
+
+		expect(pr?.requested_reviewers).toEqual(['alice']);
+		expect(github.requestCount('POST', /\/requested_reviewers$/, 'pat')).toBe(1);
+		expect(github.requestCount('POST', /\/requested_reviewers$/, 'fake-token')).toBe(0);
+	});
+
+	test('opens every sync PR as a draft with draft: always', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+
+		const run = setUpAction(github, { fixture: 'push.json', inputs: { ...inputs, draft: 'always', dry_run: 'true' } });
+		await runAction(github.octokit(), null);
+		expect(run.outputs.plan).toEqual(
+			expect.arrayContaining([expect.objectContaining({ action: 'createPR', draft: true })]),
+		);
+
+		setUpAction(github, { fixture: 'push.json', inputs: { ...inputs, draft: 'always' } });
+		await runAction(github.octokit(), null);
+		expect(github.pulls).toEqual([expect.objectContaining({ draft: true })]);
+	});
+
+	test('does nothing without a matching target branch', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+
+		const run = setUpAction(github, { fixture: 'push.json', inputs: { ...inputs, target_pattern: 'develop' } });
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls).toEqual([]);
+		expect(github.writes).toEqual([]);
+		expect(run.outputs.syncedPRs).toEqual([]);
+		expect(run.failures).toEqual([]);
+	});
+
+	test('writes failure hints to the job summary as HTML', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		github.fail('POST', /\/merges$/, 403, 'Resource not accessible by integration');
+
+		const run = setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+
+		expect(run.summary()).toContain('grants <code>contents: write</code>');
+		expect(run.summary()).not.toContain('`');
+	});
+
+	test('reports a target branch that disappears mid-run', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		github.fail('GET', /\/branches\/main$/, 404, 'Branch not found');
+
+		const run = setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls).toEqual([]);
+		expect(run.outputs.errors).toEqual([
+			expect.objectContaining({ sourceBranch: 'release/1.0', targetBranch: 'main', kind: 'not-found', status: 404 }),
+		]);
+		expect(run.failures).toHaveLength(1);
+	});
+
+	test('records writes instead of making them in a dry run', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+
+		const run = setUpAction(github, { fixture: 'push.json', inputs: { ...inputs, dry_run: 'true' } });
+		await runAction(github.octokit(), null);
+
+		expect(github.writes).toEqual([]);
+		expect(run.outputs.plan).toEqual(
+			expect.arrayContaining([expect.objectContaining({ action: 'createPR', base: 'main' })]),
+		);
+		expect(run.outputs.skipped).toEqual([]);
+	});
+
+	test('reports a PR update planned in a dry run as an update', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+
+		const run = setUpAction(github, {
+			fixture: 'push.json',
+			inputs: { ...inputs, pr_update: 'full', pr_title: 'Sync {{{ original_source }}}', dry_run: 'true' },
+		});
+		await runAction(github.octokit(), null);
+
+		expect(pr?.title).toBe('chore: Merge release/1.0 into main');
+		expect(run.outputs.plan).toEqual([expect.objectContaining({ action: 'updatePR', title: 'Sync release/1.0' })]);
+		expect(run.outputs.syncedPRs).toEqual([
+			expect.objectContaining({ url: expect.stringContaining(`/${pr?.number}`) }),
+		]);
+	});
+
+	test('replaces only the managed section of the body with pr_update: section', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs: { ...inputs, pr_update: 'section', pr_body: 'First' } });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+		if (pr !== undefined) {
+			pr.body = `Notes from a reviewer\n\n${pr.body}`;
+		}
+
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed again' } });
+		setUpAction(github, { fixture: 'push.json', inputs: { ...inputs, pr_update: 'section', pr_body: 'Second' } });
+		await runAction(github.octokit(), null);
+
+		expect(pr?.body).toMatch(/^Notes from a reviewer\n\n/);
+		expect(pr?.body).toContain('Second');
+		expect(pr?.body).not.toContain('First');
+		expect(pr?.body).toContain(syncMarker({ source: 'release/1.0', target: 'main' }));
+	});
+
+	test('finds a sync PR by its marker, whatever its branch is called', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		github.branch('merge/renamed', 'release/1.0');
+		const pr = github.openPR({
+			head: 'merge/renamed',
+			base: 'main',
+			body: syncMarker({ source: 'release/1.0', target: 'main' }),
+		});
+
+		const fix = github.commit('release/1.0', { files: { 'app.ts': 'fixed again' } });
+		setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls).toEqual([pr]);
+		expect(github.isAncestor(fix, head('merge/renamed'))).toBe(true);
+	});
+
+	test('finds a legacy sync PR without a marker by its branch name', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		github.branch('merge/release-1.0_to_main', 'release/1.0');
+		const pr = github.openPR({ head: 'merge/release-1.0_to_main', base: 'main' });
+
+		const fix = github.commit('release/1.0', { files: { 'app.ts': 'fixed again' } });
+		setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls).toEqual([pr]);
+		expect(github.isAncestor(fix, head('merge/release-1.0_to_main'))).toBe(true);
+	});
+
+	test('retries rate limited requests', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		github.fail('GET', /\/branches\/main$/, 429, 'Too many requests', { times: 1, headers: { 'retry-after': '0' } });
+
+		const run = setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls).toHaveLength(1);
+		expect(run.outputs.errors).toEqual([]);
+	});
+
+	test('syncs every pair with concurrency: 1', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		github.branch('develop', 'main');
+
+		const run = setUpAction(github, {
+			fixture: 'push.json',
+			inputs: { ...inputs, target_pattern: 'main\ndevelop', concurrency: '1' },
+		});
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls.map(pr => pr.base).sort()).toEqual(['develop', 'main']);
+		expect(run.outputs.errors).toEqual([]);
+	});
+
+	test('skips a source branch that is already on the target branch', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		github.branch('main', 'release/1.0');
+
+		const run = setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls).toEqual([]);
+		expect(github.writes).toEqual([]);
+		expect(run.outputs.skipped).toEqual([
+			expect.objectContaining({ sourceBranch: 'release/1.0', reason: expect.stringContaining('Nothing to merge') }),
+		]);
+	});
+
+	test('closes a sync PR with nothing left to merge, without pausing the pair', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+
+		github.branch('main', 'release/1.0');
+		const run = setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+
+		expect(pr?.state).toBe('closed');
+		expect(github.comments).toEqual([
+			expect.objectContaining({ body: expect.stringContaining('nothing left to merge') }),
+		]);
+		expect(run.outputs.skipped).toEqual([
+			expect.objectContaining({ reason: expect.stringContaining(`Closed #${pr?.number}`), url: expect.any(String) }),
+		]);
+
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed again' } });
+		setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls.filter(p => p.state === 'open')).toHaveLength(1);
+	});
+});
+
+describe('skipping pushes', () => {
+	const pushed = (...commits: { message?: string; modified?: string[] }[]): Record<string, unknown> => ({
+		commits: commits.map(({ message = 'Change things', modified = ['app.ts'] }, i) => ({
+			id: `${i}`,
+			message,
+			added: [],
+			removed: [],
+			modified,
+		})),
+	});
+
+	test('skips a push where every commit has the skip marker', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+
+		const run = setUpAction(github, {
+			fixture: 'push.json',
+			event: pushed({ message: 'Backport a fix [no-sync]' }, { message: 'Fix the backport\n\n[no-sync]' }),
+			inputs,
+		});
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls).toEqual([]);
+		expect(run.outputs.skipped).toEqual([
+			expect.objectContaining({ targetBranch: 'main', reason: 'Every pushed commit is marked [no-sync].' }),
+		]);
+	});
+
+	test('skips a push that only changes ignored paths', async () => {
+		github.commit('release/1.0', { files: { 'docs/setup.md': 'Updated' } });
+		const ignoring = { ...inputs, ignore_paths: 'docs/**\n**/*.md' };
+
+		const run = setUpAction(github, {
+			fixture: 'push.json',
+			event: pushed({ modified: ['docs/setup.md'] }, { modified: ['README.md', '.github/CONTRIBUTING.md'] }),
+			inputs: ignoring,
+		});
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls).toEqual([]);
+		expect(run.outputs.skipped).toEqual([
+			expect.objectContaining({ reason: expect.stringContaining('only changed ignored paths') }),
+		]);
+
+		setUpAction(github, {
+			fixture: 'push.json',
+			event: pushed({ modified: ['docs/setup.md'] }, { modified: ['app.ts'] }),
+			inputs: ignoring,
+		});
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls).toHaveLength(1);
+	});
+
+	test('skips a push that merged a sync PR with skip_sync_merges', async () => {
+		github.branch('release/1.1', 'main');
+		github.branch('release/1.2', 'main');
+		github.commit('release/1.1', { files: { 'app.ts': 'fixed' } });
+		const cascade = { ...inputs, target_pattern: 'release/*', target_selection: 'next' };
+		const event = {
+			ref: 'refs/heads/release/1.1',
+			head_commit: {
+				id: head('release/1.1'),
+				message: 'Merge pull request #7 from gravwell/merge/release-1.0_to_release-1.1-0123abcd\n\nchore: Merge',
+			},
+		};
+
+		const run = setUpAction(github, { fixture: 'push.json', event, inputs: { ...cascade, skip_sync_merges: 'true' } });
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls).toEqual([]);
+		expect(run.outputs.skipped).toContainEqual(
+			expect.objectContaining({ targetBranch: 'release/1.2', reason: 'The push merged sync PR #7.' }),
+		);
+
+		setUpAction(github, { fixture: 'push.json', event, inputs: cascade });
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls).toEqual([expect.objectContaining({ base: 'release/1.2' })]);
+	});
+});
+
+describe('pausing', () => {
+	test('leaves a sync PR with the pause label alone', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+		pr?.labels.push('sync-branches:pause');
+		const before = head(pr?.head ?? '');
+
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed again' } });
+		const run = setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+
+		expect(head(pr?.head ?? '')).toBe(before);
+		expect(run.outputs.skipped).toEqual([
+			expect.objectContaining({ reason: expect.stringContaining('Paused by the "sync-branches:pause" label') }),
+		]);
+	});
+
+	test("doesn't open a new sync PR after one is closed without merging, until it's reopened", async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+		if (pr !== undefined) {
+			pr.state = 'closed';
+		}
+
+		const fix = github.commit('release/1.0', { files: { 'app.ts': 'fixed again' } });
+		let run = setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls).toEqual([pr]);
+		expect(run.outputs.skipped).toEqual([
+			expect.objectContaining({ reason: expect.stringContaining(`#${pr?.number} was closed without merging`) }),
+		]);
+
+		if (pr !== undefined) {
+			pr.state = 'open';
+		}
+		run = setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+
+		expect(github.isAncestor(fix, head(pr?.head ?? ''))).toBe(true);
+		expect(run.outputs.skipped).toEqual([]);
+	});
+
+	test('opens a new sync PR after one is closed with pause_on_close: false', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+		if (pr !== undefined) {
+			pr.state = 'closed';
+		}
+
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed again' } });
+		setUpAction(github, { fixture: 'push.json', inputs: { ...inputs, pause_on_close: 'false' } });
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls.filter(p => p.state === 'open')).toHaveLength(1);
+	});
+});
+
+describe('push to a target branch', () => {
+	test('merges the target branch into the intermediate branch', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+
+		const feature = github.commit('main', { files: { 'feature.ts': 'new' } });
+		const run = setUpAction(github, { fixture: 'push.json', event: pushTo('main'), inputs });
+		await runAction(github.octokit(), null);
+
+		expect(github.isAncestor(feature, head(pr?.head ?? ''))).toBe(true);
+		expect(run.outputs.syncedPRs).toEqual([
+			expect.objectContaining({ sourceBranch: 'release/1.0', targetBranch: 'main' }),
+		]);
+	});
+
+	test('leaves direct sync PRs out of the results, since they have no intermediate branch', async () => {
+		const direct = { ...inputs, use_intermediate_branch: 'false' };
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs: direct });
+		await runAction(github.octokit(), null);
+
+		github.commit('main', { files: { 'feature.ts': 'new' } });
+		const run = setUpAction(github, { fixture: 'push.json', event: pushTo('main'), inputs: direct });
+		await runAction(github.octokit(), null);
+
+		expect(run.outputs.skipped).toEqual([]);
+		expect(run.outputs.syncedPRs).toEqual([]);
+	});
+
+	test('closes the sync PR once the target branch contains the source branch', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+
+		// Fast-forward main by hand
+		github.branch('main', 'release/1.0');
+		const run = setUpAction(github, { fixture: 'push.json', event: pushTo('main'), inputs });
+		await runAction(github.octokit(), null);
+
+		expect(pr?.state).toBe('closed');
+		expect(run.outputs.syncedPRs).toEqual([]);
+	});
+
+	test.each(['conflict:source', ''])(
+		'keeps reporting a source conflict the target branch push did not resolve (label: "%s")',
+		async label => {
+			const conflictInputs = { ...inputs, source_conflict_label: label, draft: 'conflicts' };
+			github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+			setUpAction(github, { fixture: 'push.json', inputs: conflictInputs });
+			await runAction(github.octokit(), null);
+			const [pr] = github.pulls;
+
+			// Someone edits the intermediate branch in a way the next source commit conflicts with
+			github.commit(pr?.head ?? '', { files: { 'app.ts': 'fixed in the PR' } });
+			github.commit('release/1.0', { files: { 'app.ts': 'fixed again' } });
+			setUpAction(github, { fixture: 'push.json', inputs: conflictInputs });
+			await runAction(github.octokit(), null);
+			expect(pr?.draft).toBe(true);
+
+			github.commit('main', { files: { 'feature.ts': 'new' } });
+			setUpAction(github, { fixture: 'push.json', event: pushTo('main'), inputs: conflictInputs });
+			await runAction(github.octokit(), null);
+
+			expect(pr?.draft).toBe(true);
+			expect(pr?.labels).toEqual(label === '' ? [] : [label]);
+			expect(github.comments).toEqual([expect.objectContaining({ minimized: false })]);
+		},
+	);
+
+	test('skips sources without a sync PR', async () => {
+		github.commit('main', { files: { 'feature.ts': 'new' } });
+
+		const run = setUpAction(github, { fixture: 'push.json', event: pushTo('main'), inputs });
+		await runAction(github.octokit(), null);
+
+		expect(github.pulls).toEqual([]);
+		expect(github.writes).toEqual([]);
+		expect(run.failures).toEqual([]);
+	});
+});
+
+describe('kicking CI', () => {
+	test('warns that kick_strategy: push needs PR_CREATE_TOKEN', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+
+		const run = setUpAction(github, { fixture: 'push.json', inputs: { ...inputs, kick_strategy: 'push' } });
+		await runAction(github.octokit(), null);
+
+		expect(run.warnings).toContainEqual(expect.stringContaining('requires PR_CREATE_TOKEN'));
+	});
+
+	/** Opens a sync PR, then pushes another commit to its source branch */
+	const updateSyncPR = async (
+		kickInputs: Record<string, string>,
+		patOctokit: ReturnType<FakeGitHub['octokit']> | null = github.octokit(),
+	): Promise<number> => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs: kickInputs });
+		await runAction(github.octokit(), patOctokit);
+		github.writes.splice(0);
+
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed again' } });
+		setUpAction(github, { fixture: 'push.json', inputs: kickInputs });
+		await runAction(github.octokit(), patOctokit);
+		return github.pulls[0]?.number ?? 0;
+	};
+
+	test('closes and reopens the sync PR with PR_CREATE_TOKEN', async () => {
+		const number = await updateSyncPR({ ...inputs, kick_delay: '0' });
+
+		expect(github.writes.filter(w => w === `PATCH /repos/gravwell/frontend/pulls/${number}`)).toHaveLength(2);
+		expect(github.pulls[0]?.state).toBe('open');
+	});
+
+	test("doesn't close and reopen the sync PR without PR_CREATE_TOKEN", async () => {
+		const number = await updateSyncPR({ ...inputs, kick_delay: '0' }, null);
+
+		expect(github.writes).not.toContain(`PATCH /repos/gravwell/frontend/pulls/${number}`);
+	});
+
+	test('dispatches kick_workflow on the intermediate branch', async () => {
+		await updateSyncPR({ ...inputs, kick_strategy: 'workflow-dispatch', kick_workflow: 'ci.yml' }, null);
+
+		expect(github.writes).toContain('POST /repos/gravwell/frontend/actions/workflows/ci.yml/dispatches');
+	});
+
+	test("doesn't kick CI with kick_strategy: none", async () => {
+		await updateSyncPR({ ...inputs, kick_strategy: 'none' });
+
+		expect(github.writes.filter(w => w.includes('/pulls/') || w.includes('/dispatches'))).toEqual([]);
+	});
+});
+
+describe('rebuilding intermediate branches', () => {
+	const recreate = { ...inputs, intermediate_strategy: 'recreate' };
+
+	test('resets the intermediate branch to a fresh merge with intermediate_strategy: recreate', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs: recreate });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+
+		const fix = github.commit('release/1.0', { files: { 'app.ts': 'fixed again' } });
+		const feature = github.commit('main', { files: { 'feature.ts': 'new' } });
+		setUpAction(github, { fixture: 'push.json', inputs: recreate });
+		await runAction(github.octokit(), null);
+
+		const rebuilt = github.getCommit(head(pr?.head ?? ''));
+		expect(rebuilt.parents).toEqual([feature, fix]);
+		expect(rebuilt.files).toEqual(expect.objectContaining({ 'app.ts': 'fixed again', 'feature.ts': 'new' }));
+		expect(github.branches.has(`sync-branches/tmp/${pr?.head}`)).toBe(false);
+	});
+
+	test('squashes the source branch onto the target branch with intermediate_strategy: squash', async () => {
+		const squash = { ...inputs, intermediate_strategy: 'squash' };
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		github.commit('release/1.0', { files: { 'lib.ts': 'fixed too' } });
+
+		setUpAction(github, { fixture: 'push.json', inputs: squash });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+
+		const squashed = github.getCommit(head(pr?.head ?? ''));
+		expect(squashed.parents).toEqual([head('main')]);
+		expect(squashed.files).toEqual(expect.objectContaining({ 'app.ts': 'fixed', 'lib.ts': 'fixed too' }));
+	});
+
+	test('tells users to resolve a rebuild conflict on the source branch', async () => {
+		github.commit('release/1.0', { files: { 'README.md': 'Hello from 1.0' } });
+		github.commit('main', { files: { 'README.md': 'Hello from main' } });
+
+		let run = setUpAction(github, { fixture: 'push.json', inputs: recreate });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+
+		expect(pr?.labels).toEqual(['conflict:target']);
+		const [comment] = github.comments;
+		expect(comment?.body).toContain('git switch -C release/1.0 origin/release/1.0');
+		expect(comment?.body).toContain('git merge origin/main');
+		expect(comment?.body).toContain('git push origin release/1.0');
+		expect(comment?.body).toMatch(/Source.*release\/1\.0.*n\/a/);
+
+		// Follow the instructions: merge the target branch into the source branch, and push the resolution
+		github.commit('release/1.0', { merge: 'main', files: { 'README.md': 'Hello from both' } });
+		run = setUpAction(github, { fixture: 'push.json', inputs: recreate });
+		await runAction(github.octokit(), null);
+
+		expect(pr?.labels).toEqual([]);
+		expect(github.getCommit(head(pr?.head ?? '')).files).toEqual(
+			expect.objectContaining({ 'README.md': 'Hello from both' }),
+		);
+		expect(run.outputs.errors).toEqual([]);
+	});
+
+	test('reports a rejected force-push of the intermediate branch', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs: recreate });
+		await runAction(github.octokit(), null);
+
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed again' } });
+		github.fail('PATCH', /\/git\/refs\/heads\/merge\//, 422, 'Protected branch update failed');
+		const run = setUpAction(github, { fixture: 'push.json', inputs: recreate });
+		await runAction(github.octokit(), null);
+
+		expect(run.outputs.errors).toEqual([
+			expect.objectContaining({ kind: 'protected', status: 422, message: expect.stringContaining('reset merge/') }),
+		]);
+	});
+
+	test('reports a temporary branch that cannot be created, instead of resetting it', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		github.fail('POST', /\/git\/refs$/, 403, 'Resource not accessible by integration');
+
+		const run = setUpAction(github, { fixture: 'push.json', inputs: recreate });
+		await runAction(github.octokit(), null);
+
+		expect(run.outputs.errors).toEqual([
+			expect.objectContaining({ kind: 'permission', message: expect.stringContaining('sync-branches/tmp/') }),
+		]);
+		expect(github.writes).toEqual([]);
+	});
+});
+
+describe('cleanup', () => {
+	const cleanupInputs = { ...inputs, cleanup: 'true' };
+
+	test('closes a sync PR whose source branch was deleted, and deletes its intermediate branch', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs: cleanupInputs });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+
+		github.branches.delete('release/1.0');
+		const run = setUpAction(github, { eventName: 'schedule', fixture: 'schedule.json', inputs: cleanupInputs });
+		await runAction(github.octokit(), null);
+
+		expect(pr?.state).toBe('closed');
+		expect(github.branches.has(pr?.head ?? '')).toBe(false);
+		expect(github.comments).toEqual([expect.objectContaining({ body: expect.stringContaining('no rule syncs') })]);
+		expect(run.outputs.cleanedUp).toEqual([
+			expect.objectContaining({ action: 'closePR', branch: pr?.head }),
+			expect.objectContaining({ action: 'deleteBranch', branch: pr?.head }),
+		]);
+	});
+
+	test('matches the head repository of a sync PR case-insensitively', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs: cleanupInputs });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+
+		if (pr !== undefined) {
+			pr.headRepo = 'Gravwell/Frontend';
+		}
+		github.branches.delete('release/1.0');
+		setUpAction(github, { eventName: 'schedule', fixture: 'schedule.json', inputs: cleanupInputs });
+		await runAction(github.octokit(), null);
+
+		expect(pr?.state).toBe('closed');
+	});
+
+	test('deletes the intermediate branch of a merged sync PR', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs: cleanupInputs });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+
+		github.branch('main', pr?.head ?? '');
+		if (pr !== undefined) {
+			pr.state = 'closed';
+			pr.merged_at = new Date().toISOString();
+		}
+		const run = setUpAction(github, { eventName: 'schedule', fixture: 'schedule.json', inputs: cleanupInputs });
+		await runAction(github.octokit(), null);
+
+		expect(github.branches.has(pr?.head ?? '')).toBe(false);
+		expect(run.outputs.cleanedUp).toEqual([expect.objectContaining({ action: 'deleteBranch', branch: pr?.head })]);
+	});
+
+	test('leaves sync PRs alone without cleanup: true', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+
+		github.branches.delete('release/1.0');
+		setUpAction(github, { eventName: 'schedule', fixture: 'schedule.json', inputs });
+		await runAction(github.octokit(), null);
+
+		expect(pr?.state).toBe('open');
+		expect(github.branches.has(pr?.head ?? '')).toBe(true);
+	});
+
+	test('skips cleanup when list_limit cuts the branch listing short', async () => {
+		// Patterns without a literal prefix list every branch
+		const unprefixed = { ...cleanupInputs, source_pattern: '*/1.0' };
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs: unprefixed });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+
+		// main and the intermediate branch are listed before release/1.0
+		const run = setUpAction(github, {
+			eventName: 'schedule',
+			fixture: 'schedule.json',
+			inputs: { ...unprefixed, list_limit: '2' },
+		});
+		await runAction(github.octokit(), null);
+
+		expect(pr?.state).toBe('open');
+		expect(github.branches.has(pr?.head ?? '')).toBe(true);
+		expect(run.outputs.cleanedUp).toEqual([]);
+		expect(run.warnings).toContainEqual(expect.stringContaining('Skipping cleanup'));
+	});
+
+	test('skips cleanup when list_limit cuts a prefixed branch listing short', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs: cleanupInputs });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+
+		// The source and target patterns are listed by prefix, and only the first prefix fits
+		const run = setUpAction(github, {
+			eventName: 'schedule',
+			fixture: 'schedule.json',
+			inputs: { ...cleanupInputs, list_limit: '1' },
+		});
+		await runAction(github.octokit(), null);
+
+		expect(pr?.state).toBe('open');
+		expect(run.outputs.cleanedUp).toEqual([]);
+		expect(run.warnings).toContainEqual(expect.stringContaining('Skipping cleanup'));
+	});
+
+	test('keeps the branch of a sync PR closed without merging, so it can be reopened', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+		setUpAction(github, { fixture: 'push.json', inputs: cleanupInputs });
+		await runAction(github.octokit(), null);
+		const [pr] = github.pulls;
+
+		if (pr !== undefined) {
+			pr.state = 'closed';
+		}
+		const run = setUpAction(github, { eventName: 'schedule', fixture: 'schedule.json', inputs: cleanupInputs });
+		await runAction(github.octokit(), null);
+
+		expect(github.branches.has(pr?.head ?? '')).toBe(true);
+		expect(run.outputs.cleanedUp).toEqual([]);
+		expect(run.outputs.skipped).toEqual([expect.objectContaining({ reason: expect.stringContaining('Reopen it') })]);
+	});
+});
+
+describe('syncing into another repository', () => {
+	let fork: FakeGitHub;
+
+	beforeEach(() => {
+		fork = github.fork('acme');
+	});
+
+	test('opens the sync PR in the target repository', async () => {
+		const fix = github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+
+		const run = setUpAction(github, { fixture: 'push.json', inputs: { ...inputs, target_repos: 'acme/frontend' } });
+		await runAction(github.octokit(), fork.octokit());
+
+		expect(github.pulls).toEqual([]);
+		expect(fork.pulls).toHaveLength(1);
+		const [pr] = fork.pulls;
+		expect(pr).toEqual(expect.objectContaining({ base: 'main', headRepo: 'acme/frontend' }));
+		expect(fork.isAncestor(fix, fork.branches.get(pr?.head ?? '') ?? '')).toBe(true);
+		expect(run.outputs.syncedPRs).toEqual([
+			expect.objectContaining({ sourceBranch: 'release/1.0', targetBranch: 'main', targetRepo: 'acme/frontend' }),
+		]);
+		expect(run.failures).toEqual([]);
+	});
+
+	test('opens a direct sync PR from the source repository', async () => {
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed' } });
+
+		const run = setUpAction(github, {
+			fixture: 'push.json',
+			inputs: { ...inputs, use_intermediate_branch: 'false', target_repos: 'acme/frontend' },
+		});
+		await runAction(github.octokit(), fork.octokit());
+
+		expect(fork.pulls).toEqual([
+			expect.objectContaining({ head: 'release/1.0', headRepo: 'gravwell/frontend', base: 'main' }),
+		]);
+		expect(run.failures).toEqual([]);
+
+		github.commit('release/1.0', { files: { 'app.ts': 'fixed again' } });
+		setUpAction(github, {
+			fixture: 'push.json',
+			inputs: { ...inputs, use_intermediate_branch: 'false', target_repos: 'acme/frontend' },
+		});
+		await runAction(github.octokit(), fork.octokit());
+
+		expect(fork.pulls).toHaveLength(1);
+	});
+
+	test('requires PR_CREATE_TOKEN', async () => {
+		setUpAction(github, { fixture: 'push.json', inputs: { ...inputs, target_repos: 'acme/frontend' } });
+
+		await expect(runAction(github.octokit(), null)).rejects.toThrow('PR_CREATE_TOKEN');
+		expect(fork.writes).toEqual([]);
+	});
+});
@@ -0,0 +1,93 @@
+import * as core from '@actions/core';
+import { mkLimiter, withRetries } from '../src/throttling';
+import { FakeGitHub } from './fake-github';
+
+const branchPath = /\/branches\/main$/;
+
+let github: FakeGitHub;
+
+beforeEach(() => {
+	jest.spyOn(core, 'info').mockImplementation(() => undefined);
+	github = new FakeGitHub();
+	github.commit('main', { files: { 'README.md': 'Hello' } });
+});
+
+afterEach(() => jest.restoreAllMocks());
+
+describe('withRetries', () => {
+	const options = { maxRetries: 3, maxRateLimitWait: 60_000 };
+	const getMain = async (octokit = withRetries(github.octokit(), options)): Promise<unknown> =>
+		octokit.repos.getBranch({ owner: 'gravwell', repo: 'frontend', branch: 'main' });
+
+	test('waits out rate limits for as long as GitHub asks', async () => {
+		github.fail('GET', branchPath, 429, 'Too many requests', { times: 2, headers: { 'retry-after': '0' } });
+
+		await expect(getMain()).resolves.toEqual(expect.objectContaining({ status: 200 }));
+		expect(github.requestCount('GET', branchPath)).toBe(3);
+	});
+
+	test("gives up on rate limits that won't reset in time", async () => {
+		const reset = `${Math.floor(Date.now() / 1_000) + 3_600}`;
+		github.fail('GET', branchPath, 403, 'API rate limit exceeded', {
+			headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': reset },
+		});
+
+		await expect(getMain()).rejects.toThrow('API rate limit exceeded');
+		expect(github.requestCount('GET', branchPath)).toBe(1);
+	});
+
+	test('stops retrying after maxRetries', async () => {
+		github.fail('GET', branchPath, 429, 'Too many requests', { headers: { 'retry-after': '0' } });
+
+		await expect(getMain(withRetries(github.octokit(), { ...options, maxRetries: 1 }))).rejects.toThrow(
+			'Too many requests',
+		);
+		expect(github.requestCount('GET', branchPath)).toBe(2);
+	});
+
+	test("doesn't retry permission errors or server errors on writes", async () => {
+		github.fail('GET', branchPath, 403, 'Resource not accessible by integration');
+		github.fail('POST', /\/merges$/, 502, 'Bad gateway');
+		const octokit = withRetries(github.octokit(), options);
+
+		await expect(getMain(octokit)).rejects.toThrow('Resource not accessible');
+		await expect(
+			octokit.repos.merge({ owner: 'gravwell', repo: 'frontend', base: 'main', head: 'main' }),
+		).rejects.toThrow('Bad gateway');
+		expect(github.requestCount('GET', branchPath)).toBe(1);
+		expect(github.requestCount('POST', /\/merges$/)).toBe(1);
+	});
+});
+
+describe('mkLimiter', () => {
+	test('runs at most "concurrency" tasks at once, in the order they were queued', async () => {
+		const limit = mkLimiter(2);
+		let running = 0;
+		let mostRunning = 0;
+		const started: number[] = [];
+
+		const results = await Promise.all(
+			[1, 2, 3, 4, 5].map(async n =>
+				limit(async () => {
+					started.push(n);
+					running++;
+					mostRunning = Math.max(mostRunning, running);
+					await new Promise(resolve => setTimeout(resolve, 5));
+					running--;
+					return n * 10;
+				}),
+			),
+		);
+
+		expect(results).toEqual([10, 20, 30, 40, 50]);
+		expect(mostRunning).toBe(2);
+		expect(started).toEqual([1, 2, 3, 4, 5]);
+	});
+
+	test('frees the slot of a failed task', async () => {
+		const limit = mkLimiter(1);
+
+		await expect(limit(async () => Promise.reject(new Error('Nope')))).rejects.toThrow('Nope');
+		await expect(limit(async () => 'next')).resolves.toBe('next');
+	});
+});
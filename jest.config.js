@@ -0,0 +1,9 @@
+module.exports = {
+	clearMocks: true,
+	moduleFileExtensions: ['js', 'ts'],
+	testMatch: ['**/*.test.ts'],
+	transform: {
+		'^.+\\.ts$': 'ts-jest',
+	},
+	verbose: true,
+};
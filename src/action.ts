@@ -0,0 +1,57 @@
+import * as core from '@actions/core';
+import { Octokit } from '@octokit/action';
+import { createTokenAuth } from '@octokit/auth-token';
+import { checkEventEnv } from './github-events';
+import { actionInputs } from './inputs';
+import { writePlanSummary } from './plan';
+import { writeSyncSummary } from './summary';
+import { updateSyncPRs } from './sync';
+
+/**
+ * Creates a new Octokit instance that authenticates with the given Personal Access Token (PAT)
+ * instead of GITHUB_TOKEN (which is the default auth strategy for @octokit/action)
+ *
+ * "baseUrl" overrides the API URL, e.g. for GitHub Enterprise Server. By default, it's read from GITHUB_API_URL.
+ */
+export const mkOctokitFromPAT = async (token: string, baseUrl: string | null = null): Promise<Octokit> => {
+	core.debug('Creating new octokit');
+	const o = new Octokit({
+		authStrategy: () => {
+			return createTokenAuth(token);
+		},
+		...(baseUrl === null ? {} : { baseUrl }),
+	});
+	core.debug('New octokit created');
+
+	core.debug('Auth new octokit');
+	await o.auth();
+	core.debug(`Authed new octokit`);
+
+	return o;
+};
+
+/**
+ * Syncs in response to the event that triggered this workflow, then reports the outcome as the action's outputs and
+ * job summary. Fails the run according to "fail_on".
+ *
+ * "actionsOctokit" authenticates with GITHUB_TOKEN, and "patOctokit" with PR_CREATE_TOKEN, if it was provided.
+ */
+export async function runAction(actionsOctokit: Octokit, patOctokit: Octokit | null): Promise<void> {
+	const syncEvent = await checkEventEnv();
+	const outputs = await updateSyncPRs({ actionsOctokit, patOctokit, syncEvent, inputs: actionInputs });
+
+	core.setOutput('syncedPRs', outputs.syncedPRs);
+	core.setOutput('cleanedUp', outputs.cleanedUp);
+	core.setOutput('plan', outputs.plan);
+	core.setOutput('errors', outputs.errors);
+	core.setOutput('skipped', outputs.skipped);
+
+	await writeSyncSummary(outputs.results);
+	if (outputs.dryRun) {
+		await writePlanSummary(outputs.plan);
+	}
+
+	if (outputs.failure !== null) {
+		core.setFailed(outputs.failure);
+	}
+}
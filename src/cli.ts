@@ -0,0 +1,207 @@
+#!/usr/bin/env node
+import { readFileSync } from 'fs';
+import { load } from 'js-yaml';
+import { join } from 'path';
+import { parseArgs } from 'util';
+import { mkOctokitFromPAT } from './action';
+import { toSyncError } from './errors';
+import { SyncEvent } from './github-events';
+import { InputReader, inputsFrom } from './inputs';
+import { updateSyncPRs } from './sync';
+
+const usage = `Usage: sync-branches --repo owner/name --source <pattern> --target <pattern> [options]
+
+Syncs every source branch with each of its targets, like a scheduled run of the action.
+
+Options:
+  --repo <owner/name>   The repository to sync. Required.
+  --token <token>       Authenticates with GitHub. Defaults to $GITHUB_TOKEN.
+  --pr-token <token>    Opens and updates PRs, like the PR_CREATE_TOKEN input. Defaults to $PR_CREATE_TOKEN.
+  --base-url <url>      The GitHub API URL, e.g. https://github.example.com/api/v3. Defaults to $GITHUB_API_URL.
+  --source <pattern>    The source_pattern input. Repeat for multiple patterns.
+  --target <pattern>    The target_pattern input. Repeat for multiple patterns.
+  --push <branch>       Sync as if <branch> was pushed, instead of syncing every source branch.
+  --verbose             Print debug logs.
+  -h, --help            Print this message.
+
+Every other input of the action is a flag too, with dashes instead of underscores, e.g. --dry-run true or
+--config-file .github/sync-branches.yml. See the README for the full list.
+
+Prints the syncedPRs, cleanedUp, plan, errors and skipped outputs as JSON. Exits with 1 if the run fails according to --fail-on.
+`;
+
+/** Inputs that the CLI sets with its own flags */
+const cliOnlyInputs = ['GITHUB_TOKEN', 'PR_CREATE_TOKEN', 'source_pattern', 'target_pattern'];
+
+/** Reads the inputs declared in action.yml, with their defaults */
+const readActionInputs = (): Record<string, string> => {
+	const { inputs } = load(readFileSync(join(__dirname, '..', 'action.yml'), 'utf8')) as {
+		inputs: Record<string, { default?: string }>;
+	};
+	return Object.fromEntries(Object.entries(inputs).map(([name, { default: value }]) => [name, value ?? '']));
+};
+
+/** The flag for an input, e.g. "dry-run" for "dry_run" */
+const inputFlag = (name: string): string => name.replace(/_/g, '-');
+
+/** Everything the CLI needs to run a sync */
+export type CLIOptions = {
+	token: string;
+	prToken: string | null;
+	baseUrl: string | null;
+	syncEvent: SyncEvent;
+	inputs: InputReader;
+	verbose: boolean;
+};
+
+/**
+ * Parses the CLI's arguments (without "node" and the script). Tokens and the API URL fall back to "env".
+ *
+ * Returns null for --help. Throws if an argument is unknown or a required one is missing.
+ */
+export const parseCommandLine = (
+	args: string[],
+	env: Record<string, string | undefined> = process.env,
+): CLIOptions | null => {
+	const defaults = readActionInputs();
+	const inputNames = Object.keys(defaults).filter(name => cliOnlyInputs.includes(name) === false);
+
+	const { values } = parseArgs({
+		args,
+		strict: true,
+		options: {
+			repo: { type: 'string' },
+			token: { type: 'string' },
+			'pr-token': { type: 'string' },
+			'base-url': { type: 'string' },
+			source: { type: 'string', multiple: true },
+			target: { type: 'string', multiple: true },
+			push: { type: 'string' },
+			verbose: { type: 'boolean', default: false },
+			help: { type: 'boolean', short: 'h', default: false },
+			...Object.fromEntries(inputNames.map(name => [inputFlag(name), { type: 'string', multiple: true } as const])),
+		},
+	});
+	const flag = (name: string): string | undefined => {
+		const value: unknown = (values as Record<string, unknown>)[name];
+		return Array.isArray(value) ? value.join('\n') : typeof value === 'string' ? value : undefined;
+	};
+
+	if (values.help === true) {
+		return null;
+	}
+
+	const inputs = inputsFrom({
+		...defaults,
+		...Object.fromEntries(inputNames.map(name => [name, flag(inputFlag(name)) ?? defaults[name]])),
+		source_pattern: flag('source'),
+		target_pattern: flag('target'),
+	});
+
+	const fullName = flag('repo') ?? '';
+	const [, owner, repo] = fullName.match(/^([\w.-]+)\/([\w.-]+)$/) ?? [];
+	if (owner === undefined || repo === undefined) {
+		throw new Error(`--repo must look like "owner/name". Got "${fullName}"`);
+	}
+
+	const token = flag('token') ?? env.GITHUB_TOKEN ?? '';
+	if (token === '') {
+		throw new Error('Set --token or $GITHUB_TOKEN');
+	}
+
+	const pushed = flag('push');
+	const repository = { name: repo, owner: { login: owner } };
+	return {
+		token,
+		prToken: flag('pr-token') ?? (env.PR_CREATE_TOKEN || null),
+		baseUrl: flag('base-url') ?? (env.GITHUB_API_URL || null),
+		syncEvent:
+			pushed === undefined
+				? { name: 'schedule', event: { schedule: '', repository } }
+				: {
+						name: 'push',
+						event: { ref: `refs/heads/${pushed}`, after: '', commits: [], head_commit: null, repository },
+				  },
+		inputs,
+		verbose: values.verbose === true,
+	};
+};
+
+/** Undoes @actions/core's escaping of workflow command messages */
+const unescapeCommand = (message: string): string =>
+	message.replace(/%0D/g, '\r').replace(/%0A/g, '\n').replace(/%25/g, '%');
+
+/**
+ * @actions/core logs with workflow commands like "::warning::message", which only GitHub Actions understands.
+ * Rewrites them as plain log lines, dropping debug logs unless "verbose" is set.
+ */
+const printWorkflowCommands = (verbose: boolean): void => {
+	const write = process.stdout.write.bind(process.stdout) as (
+		chunk: string | Uint8Array,
+		...rest: unknown[]
+	) => boolean;
+
+	process.stdout.write = (chunk: string | Uint8Array, ...rest: unknown[]): boolean => {
+		const match = typeof chunk === 'string' ? chunk.match(/^::([\w-]+)(?: [^:]*)?::(.*?)(\r?\n)?$/s) : null;
+		if (match === null) {
+			return write(chunk, ...rest);
+		}
+
+		const [, command, message = '', eol = ''] = match;
+		switch (command) {
+			case 'debug':
+				return verbose ? write(`debug: ${unescapeCommand(message)}${eol}`) : true;
+			case 'warning':
+			case 'error':
+			case 'notice':
+				return process.stderr.write(`${command}: ${unescapeCommand(message)}${eol}`);
+			case 'group':
+				return write(`${unescapeCommand(message)}${eol}`);
+			case 'endgroup':
+				return true;
+			default:
+				return write(chunk, ...rest);
+		}
+	};
+};
+
+const main = async (): Promise<void> => {
+	let options: CLIOptions | null;
+	try {
+		options = parseCommandLine(process.argv.slice(2));
+	} catch (err: unknown) {
+		process.stderr.write(`${err instanceof Error ? err.message : err}\n\n${usage}`);
+		process.exitCode = 2;
+		return;
+	}
+	if (options === null) {
+		process.stdout.write(usage);
+		return;
+	}
+
+	printWorkflowCommands(options.verbose);
+	try {
+		const { token, prToken, baseUrl, syncEvent, inputs } = options;
+		const outputs = await updateSyncPRs({
+			actionsOctokit: await mkOctokitFromPAT(token, baseUrl),
+			patOctokit: prToken === null ? null : await mkOctokitFromPAT(prToken, baseUrl),
+			syncEvent,
+			inputs,
+		});
+
+		const { syncedPRs, cleanedUp, plan, errors, skipped } = outputs;
+		process.stdout.write(`${JSON.stringify({ syncedPRs, cleanedUp, plan, errors, skipped }, null, 2)}\n`);
+		if (outputs.failure !== null) {
+			process.stderr.write(`${outputs.failure}\n`);
+			process.exitCode = 1;
+		}
+	} catch (err: unknown) {
+		const error = toSyncError(err, 'sync branches');
+		process.stderr.write(`${error.message}\n`);
+		process.exitCode = 1;
+	}
+};
+
+if (require.main === module) {
+	main();
+}
@@ -0,0 +1,357 @@
+import * as core from '@actions/core';
+import { array, boolean, Decoder, either, exact, oneOf, optional, regex, string } from 'decoders';
+import { readFile } from 'fs/promises';
+import { load } from 'js-yaml';
+import { getBooleanInput, getListInput, getPatternListInput, InputReader } from './inputs';
+import { BranchPatterns } from './patterns';
+import { defaultBranchNameTemplate } from './templates';
+import { TargetSelection } from './versions';
+
+/**
+ * How intermediate branches are brought up to date with their source and target branches
+ *
+ * - "merge": Merge the source and target branches into the intermediate branch, adding merge commits over time
+ * - "recreate": Reset the intermediate branch to a fresh merge of the source branch onto the target branch
+ * - "squash": Reset the intermediate branch to a single commit on top of the target branch
+ */
+export type IntermediateStrategy = 'merge' | 'recreate' | 'squash';
+
+/**
+ * How existing sync PRs are updated when their templates render differently
+ *
+ * - "never": Titles and bodies are only rendered when the PR is opened
+ * - "full": The title and the whole body are re-rendered
+ * - "section": The title and the managed section of the body are re-rendered. The rest of the body is left alone.
+ */
+export type PRUpdateMode = 'never' | 'full' | 'section';
+
+/**
+ * How to start CI on a sync PR after sync-branches pushes a merge to it. Pushes made with GITHUB_TOKEN don't trigger
+ * workflows.
+ *
+ * - "close-reopen": Close the PR and reopen it with PR_CREATE_TOKEN
+ * - "push": Push the merges with PR_CREATE_TOKEN, so the usual "synchronize" event starts CI
+ * - "workflow-dispatch": Dispatch a workflow on the PR's head branch
+ * - "none": Don't start CI
+ */
+export type KickStrategy = 'close-reopen' | 'push' | 'workflow-dispatch' | 'none';
+
+/**
+ * When to fail the workflow run
+ *
+ * - "any": If any pair fails to sync, or any sync PR has conflicts
+ * - "errors": If any pair fails to sync. Conflicts are reported on the PR instead.
+ * - "never": Never. Failures are only reported in the job summary and the "errors" output.
+ */
+export type FailurePolicy = 'any' | 'errors' | 'never';
+
+/**
+ * When sync PRs are drafts
+ *
+ * - "never": PRs are opened ready for review
+ * - "always": PRs are opened as drafts, and left for people to mark ready for review
+ * - "conflicts": PRs are drafts while they have conflicts, and are marked ready for review once merges succeed
+ */
+export type DraftMode = 'never' | 'always' | 'conflicts';
+
+/** The merge methods GitHub's auto-merge supports */
+export type MergeMethod = 'merge' | 'squash' | 'rebase';
+
+/** Describes a single source/target pairing that sync-branches should maintain PRs for */
+export type SyncRule = {
+	/** A name identifying this rule in logs and outputs */
+	name: string;
+
+	/**
+	 * true if we should use an intermediate branch to merge "pushedBranch" into "targetBranch".
+	 * Otherwise we just open a PR that merges "pushedBranch" directly into "targetBranch"
+	 */
+	useIntermediateBranch: boolean;
+	/** How the intermediate branch is updated. Not relevant if there's no intermediate branch. */
+	intermediateStrategy: IntermediateStrategy;
+	/** The template used to name new intermediate branches. Not relevant if there's no intermediate branch. */
+	intermediateBranchTemplate: string;
+
+	/** The patterns used to match the source (head) branch */
+	sourcePatterns: BranchPatterns;
+	/** The patterns used to match the target (base) branch */
+	targetPatterns: BranchPatterns;
+	/** How to choose among the branches matching targetPatterns */
+	targetSelection: TargetSelection;
+	/** The repositories (as "owner/repo") to open sync PRs in. Empty means this repository. */
+	targetRepos: string[];
+	/** The template to be used for the PR title */
+	prTitleTemplate: string;
+	/** the template to be used for the PR body */
+	prBodyTemplate: string;
+	/** How the title and body of existing PRs are kept up to date */
+	prUpdate: PRUpdateMode;
+
+	/** The name of a label to apply to the PR if a src-intermediate conflict is detected */
+	sourceConflictLabel: string;
+	/** The name of a label to apply to the PR if a target-intermediate conflict is detected */
+	targetConflictLabel: string;
+
+	/** How to start CI after pushing a merge to a sync PR */
+	kickStrategy: KickStrategy;
+	/** The workflow file name (e.g. "ci.yml") or ID to dispatch with the "workflow-dispatch" kick strategy */
+	kickWorkflow: string;
+
+	/** The name of a label that pauses syncing to a sync PR while it's applied */
+	pauseLabel: string;
+	/** true if closing a sync PR without merging it should pause syncing for its source/target pair */
+	pauseOnClose: boolean;
+
+	/** When sync PRs are drafts */
+	draftMode: DraftMode;
+
+	/** true if GitHub auto-merge should be enabled on sync PRs without conflicts */
+	autoMerge: boolean;
+	/** The merge method auto-merge should use */
+	autoMergeMethod: MergeMethod;
+
+	/** Templates for the logins of users to request reviews from */
+	reviewers: string[];
+	/** Templates for the slugs of teams to request reviews from */
+	teamReviewers: string[];
+	/** Templates for the logins of users to assign */
+	assignees: string[];
+	/** true if the author of the latest commit on the source branch should be assigned */
+	assignSourceAuthor: boolean;
+
+	/** Pushes to a source branch aren't synced if every pushed commit's message contains this. "" disables it. */
+	skipMarker: string;
+	/** Patterns for files that don't need syncing. Pushes that only change these files aren't synced. */
+	ignorePaths: string[];
+	/** true if pushes that merged a sync PR into a source branch shouldn't be synced any further */
+	skipSyncMerges: boolean;
+};
+
+/** A single rule as written in the config file. Omitted fields fall back to the action inputs. */
+export type RuleConfig = {
+	name: string;
+	source_pattern: string[];
+	target_pattern: string[];
+	source_exclude?: string[] | undefined;
+	target_exclude?: string[] | undefined;
+	target_selection?: TargetSelection | undefined;
+	target_repos?: string[] | undefined;
+	use_intermediate_branch?: boolean | undefined;
+	intermediate_strategy?: IntermediateStrategy | undefined;
+	intermediate_branch_template?: string | undefined;
+	pr_title?: string | undefined;
+	pr_body?: string | undefined;
+	pr_update?: PRUpdateMode | undefined;
+	source_conflict_label?: string | undefined;
+	target_conflict_label?: string | undefined;
+	kick_strategy?: KickStrategy | undefined;
+	kick_workflow?: string | undefined;
+	pause_label?: string | undefined;
+	pause_on_close?: boolean | undefined;
+	draft?: DraftMode | undefined;
+	auto_merge?: boolean | undefined;
+	auto_merge_method?: MergeMethod | undefined;
+	reviewers?: string[] | undefined;
+	team_reviewers?: string[] | undefined;
+	assignees?: string[] | undefined;
+	assign_source_author?: boolean | undefined;
+	skip_marker?: string | undefined;
+	ignore_paths?: string[] | undefined;
+	skip_sync_merges?: boolean | undefined;
+};
+
+/** The contents of a sync-branches config file (e.g. .github/sync-branches.yml) */
+export type SyncConfig = {
+	rules: RuleConfig[];
+};
+
+export const targetSelection: Decoder<TargetSelection> = oneOf(['all', 'next', 'newer']);
+
+export const intermediateStrategy: Decoder<IntermediateStrategy> = oneOf(['merge', 'recreate', 'squash']);
+
+export const prUpdateMode: Decoder<PRUpdateMode> = oneOf(['never', 'full', 'section']);
+
+export const kickStrategy: Decoder<KickStrategy> = oneOf(['close-reopen', 'push', 'workflow-dispatch', 'none']);
+
+export const failurePolicy: Decoder<FailurePolicy> = oneOf(['any', 'errors', 'never']);
+
+export const draftMode: Decoder<DraftMode> = oneOf(['never', 'always', 'conflicts']);
+
+export const mergeMethod: Decoder<MergeMethod> = oneOf(['merge', 'squash', 'rebase']);
+
+/** A single pattern, or a list of patterns */
+export const patternList: Decoder<string[]> = either(string, array(string)).transform(patterns =>
+	typeof patterns === 'string' ? [patterns] : patterns,
+);
+
+/** A repository name, like "gravwell/frontend" */
+export const repoName: Decoder<string> = regex(/^[\w.-]+\/[\w.-]+$/, 'Must be a repository name, like "owner/repo"');
+
+/** A single repository name, or a list of them */
+export const repoList: Decoder<string[]> = either(repoName, array(repoName)).transform(names =>
+	typeof names === 'string' ? [names] : names,
+);
+
+export const ruleConfig: Decoder<RuleConfig> = exact({
+	name: string,
+	source_pattern: patternList,
+	target_pattern: patternList,
+	source_exclude: optional(patternList),
+	target_exclude: optional(patternList),
+	target_selection: optional(targetSelection),
+	target_repos: optional(repoList),
+	use_intermediate_branch: optional(boolean),
+	intermediate_strategy: optional(intermediateStrategy),
+	intermediate_branch_template: optional(string),
+	pr_title: optional(string),
+	pr_body: optional(string),
+	pr_update: optional(prUpdateMode),
+	source_conflict_label: optional(string),
+	target_conflict_label: optional(string),
+	kick_strategy: optional(kickStrategy),
+	kick_workflow: optional(string),
+	pause_label: optional(string),
+	pause_on_close: optional(boolean),
+	draft: optional(draftMode),
+	auto_merge: optional(boolean),
+	auto_merge_method: optional(mergeMethod),
+	reviewers: optional(array(string)),
+	team_reviewers: optional(array(string)),
+	assignees: optional(array(string)),
+	assign_source_author: optional(boolean),
+	skip_marker: optional(string),
+	ignore_paths: optional(patternList),
+	skip_sync_merges: optional(boolean),
+});
+
+export const syncConfig: Decoder<SyncConfig> = exact({
+	rules: array(ruleConfig),
+});
+
+/** Reads and validates a YAML (or JSON) config file */
+export const loadConfigFile = async (path: string): Promise<SyncConfig> => {
+	const buf = await readFile(path);
+	const value = load(buf.toString(), { filename: path });
+	return syncConfig.verify(value);
+};
+
+/** Throws if a rule's settings contradict each other. Otherwise returns the rule. */
+const checkRule = (rule: SyncRule): SyncRule => {
+	if (rule.sourcePatterns.include.length === 0 || rule.targetPatterns.include.length === 0) {
+		throw new Error(`Rule "${rule.name}" needs at least one source_pattern and one target_pattern`);
+	}
+	if (rule.kickStrategy === 'workflow-dispatch' && rule.kickWorkflow === '') {
+		throw new Error(`Rule "${rule.name}" uses the workflow-dispatch kick strategy, but kick_workflow is not set`);
+	}
+	return rule;
+};
+
+/**
+ * Returns the sync rules for this run.
+ *
+ * If "config_file" is set, rules are read from that file, and the remaining inputs act as defaults for each rule.
+ * Otherwise, a single rule named "default" is constructed from the inputs.
+ */
+export const getSyncRules = async (inputs: InputReader): Promise<SyncRule[]> => {
+	const configFile = inputs('config_file');
+	const useIntermediateBranch = getBooleanInput(inputs, 'use_intermediate_branch');
+
+	const defaults = {
+		targetSelection: targetSelection.verify(inputs('target_selection') || 'all'),
+		targetRepos: array(repoName).verify(getListInput(inputs, 'target_repos')),
+		intermediateStrategy: intermediateStrategy.verify(inputs('intermediate_strategy') || 'merge'),
+		intermediateBranchTemplate: inputs('intermediate_branch_template') || defaultBranchNameTemplate,
+		prTitleTemplate: inputs('pr_title'),
+		prBodyTemplate: inputs('pr_body'),
+		prUpdate: prUpdateMode.verify(inputs('pr_update') || 'never'),
+		sourceConflictLabel: inputs('source_conflict_label'),
+		targetConflictLabel: inputs('target_conflict_label'),
+		kickStrategy: kickStrategy.verify(inputs('kick_strategy') || 'close-reopen'),
+		kickWorkflow: inputs('kick_workflow'),
+		sourceExclude: getPatternListInput(inputs, 'source_exclude'),
+		targetExclude: getPatternListInput(inputs, 'target_exclude'),
+		pauseLabel: inputs('pause_label'),
+		pauseOnClose: getBooleanInput(inputs, 'pause_on_close') ?? true,
+		draftMode: draftMode.verify(inputs('draft') || 'never'),
+		autoMerge: getBooleanInput(inputs, 'auto_merge') ?? false,
+		autoMergeMethod: mergeMethod.verify(inputs('auto_merge_method') || 'merge'),
+		reviewers: getListInput(inputs, 'reviewers'),
+		teamReviewers: getListInput(inputs, 'team_reviewers'),
+		assignees: getListInput(inputs, 'assignees'),
+		assignSourceAuthor: getBooleanInput(inputs, 'assign_source_author') ?? false,
+		skipMarker: inputs('skip_marker'),
+		ignorePaths: getPatternListInput(inputs, 'ignore_paths'),
+		skipSyncMerges: getBooleanInput(inputs, 'skip_sync_merges') ?? false,
+	};
+
+	if (configFile === '') {
+		if (useIntermediateBranch === null) {
+			throw new Error('Input required and not supplied: use_intermediate_branch');
+		}
+
+		const { sourceExclude, targetExclude, ...ruleDefaults } = defaults;
+		return [
+			checkRule({
+				...ruleDefaults,
+				name: 'default',
+				sourcePatterns: {
+					include: getPatternListInput(inputs, 'source_pattern', { required: true }),
+					exclude: sourceExclude,
+				},
+				targetPatterns: {
+					include: getPatternListInput(inputs, 'target_pattern', { required: true }),
+					exclude: targetExclude,
+				},
+				useIntermediateBranch,
+			}),
+		];
+	}
+
+	core.info(`Reading sync rules from ${configFile}`);
+	const { rules } = await loadConfigFile(configFile);
+
+	const names = new Set<string>();
+	return rules.map(rule => {
+		if (names.has(rule.name)) {
+			throw new Error(`Duplicate rule name in ${configFile}: ${rule.name}`);
+		}
+		names.add(rule.name);
+
+		const ruleUsesIntermediateBranch = rule.use_intermediate_branch ?? useIntermediateBranch;
+		if (ruleUsesIntermediateBranch === null) {
+			throw new Error(
+				`Rule "${rule.name}" doesn't set use_intermediate_branch, and the use_intermediate_branch input was not supplied`,
+			);
+		}
+
+		return checkRule({
+			name: rule.name,
+			sourcePatterns: { include: rule.source_pattern, exclude: rule.source_exclude ?? defaults.sourceExclude },
+			targetPatterns: { include: rule.target_pattern, exclude: rule.target_exclude ?? defaults.targetExclude },
+			targetSelection: rule.target_selection ?? defaults.targetSelection,
+			targetRepos: rule.target_repos ?? defaults.targetRepos,
+			useIntermediateBranch: ruleUsesIntermediateBranch,
+			intermediateStrategy: rule.intermediate_strategy ?? defaults.intermediateStrategy,
+			intermediateBranchTemplate: rule.intermediate_branch_template ?? defaults.intermediateBranchTemplate,
+			prTitleTemplate: rule.pr_title ?? defaults.prTitleTemplate,
+			prBodyTemplate: rule.pr_body ?? defaults.prBodyTemplate,
+			prUpdate: rule.pr_update ?? defaults.prUpdate,
+			sourceConflictLabel: rule.source_conflict_label ?? defaults.sourceConflictLabel,
+			targetConflictLabel: rule.target_conflict_label ?? defaults.targetConflictLabel,
+			kickStrategy: rule.kick_strategy ?? defaults.kickStrategy,
+			kickWorkflow: rule.kick_workflow ?? defaults.kickWorkflow,
+			pauseLabel: rule.pause_label ?? defaults.pauseLabel,
+			pauseOnClose: rule.pause_on_close ?? defaults.pauseOnClose,
+			draftMode: rule.draft ?? defaults.draftMode,
+			autoMerge: rule.auto_merge ?? defaults.autoMerge,
+			autoMergeMethod: rule.auto_merge_method ?? defaults.autoMergeMethod,
+			reviewers: rule.reviewers ?? defaults.reviewers,
+			teamReviewers: rule.team_reviewers ?? defaults.teamReviewers,
+			assignees: rule.assignees ?? defaults.assignees,
+			assignSourceAuthor: rule.assign_source_author ?? defaults.assignSourceAuthor,
+			skipMarker: rule.skip_marker ?? defaults.skipMarker,
+			ignorePaths: rule.ignore_paths ?? defaults.ignorePaths,
+			skipSyncMerges: rule.skip_sync_merges ?? defaults.skipSyncMerges,
+		});
+	});
+};
@@ -0,0 +1,114 @@
+import { RequestError } from '@octokit/request-error';
+
+/**
+ * What kind of failure a SyncError describes
+ *
+ * - "conflict": A merge failed because the branches conflict
+ * - "permission": The token isn't allowed to do this
+ * - "protected": Branch protection rejected a push
+ * - "not-found": Something doesn't exist, or the token can't see it
+ * - "rate-limit": The token ran out of API requests
+ * - "unknown": Anything else
+ */
+export type SyncErrorKind = 'conflict' | 'permission' | 'protected' | 'not-found' | 'rate-limit' | 'unknown';
+
+/** Describes a source/target pair that failed to sync, for the "errors" output */
+export type SyncFailure = {
+	/** The name of the sync rule that evaluated the pair */
+	rule: string;
+	sourceBranch: string;
+	targetBranch: string;
+	/** The repository the pair syncs into, as "owner/repo". null for this repository. */
+	targetRepo: string | null;
+	kind: SyncErrorKind;
+	/** The HTTP status of the failed request, or null if no request failed */
+	status: number | null;
+	message: string;
+};
+
+/** A failed sync step. Keeps the HTTP status and the original error, if there was one. */
+export class SyncError extends Error {
+	readonly kind: SyncErrorKind;
+	/** The HTTP status of the failed request, or null if no request failed */
+	readonly status: number | null;
+	/** The original error */
+	readonly cause: unknown;
+
+	constructor(
+		message: string,
+		{ kind, status, cause }: { kind: SyncErrorKind; status: number | null; cause: unknown },
+	) {
+		super(message);
+		this.name = 'SyncError';
+		this.kind = kind;
+		this.status = status;
+		this.cause = cause;
+	}
+}
+
+/** Suggests how to fix well-known failures. Returns "" if there's nothing to suggest. */
+const hint = (kind: SyncErrorKind): string => {
+	switch (kind) {
+		case 'permission':
+			return 'Make sure the workflow grants `contents: write` and `pull-requests: write` permissions to GITHUB_TOKEN, and that PR_CREATE_TOKEN (if set) has Read and Write access to Contents and Pull requests.';
+		case 'protected':
+			return "A branch protection rule rejected the push. Allow the token's user to bypass it, or use an intermediate branch.";
+		case 'not-found':
+			return "Either it doesn't exist, or the token can't see it. A fine-grained PAT must be granted access to this repository.";
+		case 'rate-limit':
+			return 'Wait for the rate limit to reset, or sync fewer branches per run.';
+		case 'conflict':
+		case 'unknown':
+			return '';
+	}
+};
+
+/** Works out what kind of failure a GitHub API error describes */
+const classify = (err: RequestError): SyncErrorKind => {
+	const message = err.message.toLowerCase();
+
+	if (message.includes('protected branch') || message.includes('branch protection')) {
+		return 'protected';
+	}
+	if (message.includes('rate limit')) {
+		return 'rate-limit';
+	}
+
+	switch (err.status) {
+		case 409:
+			return 'conflict';
+		case 401:
+		case 403:
+			return 'permission';
+		case 404:
+			return 'not-found';
+		case 429:
+			return 'rate-limit';
+		default:
+			return 'unknown';
+	}
+};
+
+/**
+ * Wraps an error thrown while "doing" something (e.g. "merge a into b") in a SyncError with an actionable message.
+ * SyncErrors are returned unchanged.
+ */
+export const toSyncError = (err: unknown, doing: string): SyncError => {
+	if (err instanceof SyncError) {
+		return err;
+	}
+
+	if (err instanceof RequestError) {
+		const kind = classify(err);
+		const message = `Failed to ${doing} (${err.status}): ${err.message}`;
+		const suggestion = hint(kind);
+		return new SyncError(suggestion === '' ? message : `${message}. ${suggestion}`, {
+			kind,
+			status: err.status,
+			cause: err,
+		});
+	}
+
+	const detail = err instanceof Error ? err.message : `${err}`;
+	return new SyncError(`Failed to ${doing}: ${detail}`, { kind: 'unknown', status: null, cause: err });
+};
@@ -1,6 +1,38 @@
-import { Decoder, object, string } from 'decoders';
+import { array, boolean, Decoder, nullable, number, object, optional, string } from 'decoders';
 import { readFile } from 'fs/promises';
 
+/** The repository an event happened in. Present on every event we handle. */
+export type Repository = {
+	name: string;
+	owner: {
+		login: string;
+	};
+};
+
+export const repository: Decoder<Repository> = object({
+	name: string,
+	owner: object({
+		login: string,
+	}),
+});
+
+/** A commit included in a push. The file lists are relative to the commit's first parent. */
+export type PushCommit = {
+	id: string;
+	message: string;
+	added: string[];
+	removed: string[];
+	modified: string[];
+};
+
+export const pushCommit: Decoder<PushCommit> = object({
+	id: string,
+	message: string,
+	added: optional(array(string), () => []),
+	removed: optional(array(string), () => []),
+	modified: optional(array(string), () => []),
+});
+
 /**
  * Push event details
  * https://docs.github.com/en/actions/using-workflows/events-that-trigger-workflows#push
@@ -9,27 +41,103 @@ import { readFile } from 'fs/promises';
 export type PushEvent = {
 	after: string;
 	ref: string;
-	repository: {
-		name: string;
-		owner: {
-			login: string;
-		};
-	};
+	/** The commits the push added to the branch, oldest first. Empty if the push didn't add any (e.g. a new branch). */
+	commits: PushCommit[];
+	/** The commit the branch points at after the push. null if the branch was deleted. */
+	head_commit: { id: string; message: string } | null;
+	repository: Repository;
 };
 
 export const pushEvent: Decoder<PushEvent> = object({
 	after: string,
 	ref: string,
-	repository: object({
-		name: string,
-		owner: object({
-			login: string,
-		}),
+	commits: optional(array(pushCommit), () => []),
+	head_commit: optional(nullable(object({ id: string, message: string })), null),
+	repository,
+});
+
+/**
+ * Schedule event details
+ * https://docs.github.com/en/actions/using-workflows/events-that-trigger-workflows#schedule
+ */
+export type ScheduleEvent = {
+	schedule: string;
+	repository: Repository;
+};
+
+export const scheduleEvent: Decoder<ScheduleEvent> = object({
+	schedule: string,
+	repository,
+});
+
+/**
+ * Workflow dispatch event details. Only the "source" and "target" workflow inputs are of interest to us.
+ * https://docs.github.com/en/actions/using-workflows/events-that-trigger-workflows#workflow_dispatch
+ * https://docs.github.com/en/webhooks-and-events/webhooks/webhook-events-and-payloads#workflow_dispatch
+ */
+export type WorkflowDispatchEvent = {
+	ref: string;
+	inputs?:
+		| {
+				source?: string | undefined;
+				target?: string | undefined;
+		  }
+		| null
+		| undefined;
+	repository: Repository;
+};
+
+export const workflowDispatchEvent: Decoder<WorkflowDispatchEvent> = object({
+	ref: string,
+	inputs: optional(
+		nullable(
+			object({
+				source: optional(string),
+				target: optional(string),
+			}),
+		),
+	),
+	repository,
+});
+
+/**
+ * Pull request event details
+ * https://docs.github.com/en/actions/using-workflows/events-that-trigger-workflows#pull_request
+ * https://docs.github.com/en/webhooks-and-events/webhooks/webhook-events-and-payloads#pull_request
+ */
+export type PullRequestEvent = {
+	action: string;
+	pull_request: {
+		number: number;
+		merged: boolean;
+		body?: string | null | undefined;
+		head: { ref: string };
+		base: { ref: string };
+	};
+	repository: Repository;
+};
+
+export const pullRequestEvent: Decoder<PullRequestEvent> = object({
+	action: string,
+	pull_request: object({
+		number,
+		merged: boolean,
+		body: optional(nullable(string)),
+		head: object({ ref: string }),
+		base: object({ ref: string }),
 	}),
+	repository,
 });
 
-/** Returns push event values gathered from CI environment variables */
-export const checkPushEventEnv = async (): Promise<PushEvent> => {
+/** The decoded payload of any event sync-branches can respond to, tagged with the event name */
+export type SyncEvent =
+	| { name: 'push'; event: PushEvent }
+	| { name: 'schedule'; event: ScheduleEvent }
+	| { name: 'workflow_dispatch'; event: WorkflowDispatchEvent }
+	| { name: 'pull_request' | 'pull_request_target'; event: PullRequestEvent };
+
+/** Reads the raw event payload from the file GitHub provides */
+const readEventPayload = async (): Promise<unknown> => {
 	const eventPath = process.env.GITHUB_EVENT_PATH;
 	if (!eventPath) {
 		throw new Error('Expected non-nil event path');
@@ -41,6 +149,32 @@ export const checkPushEventEnv = async (): Promise<PushEvent> => {
 	}
 
 	const buf = await readFile(eventPath);
-	const value = JSON.parse(buf.toString());
+	return JSON.parse(buf.toString());
+};
+
+/** Returns push event values gathered from CI environment variables */
+export const checkPushEventEnv = async (): Promise<PushEvent> => {
+	const value = await readEventPayload();
 	return pushEvent.verify(value);
 };
+
+/** Returns event values gathered from CI environment variables. Throws if the event isn't supported. */
+export const checkEventEnv = async (): Promise<SyncEvent> => {
+	const name = process.env.GITHUB_EVENT_NAME;
+
+	switch (name) {
+		case 'push':
+			return { name, event: await checkPushEventEnv() };
+		case 'schedule':
+			return { name, event: scheduleEvent.verify(await readEventPayload()) };
+		case 'workflow_dispatch':
+			return { name, event: workflowDispatchEvent.verify(await readEventPayload()) };
+		case 'pull_request':
+		case 'pull_request_target':
+			return { name, event: pullRequestEvent.verify(await readEventPayload()) };
+		default:
+			throw new Error(
+				`sync-branches only works on "push", "schedule", "workflow_dispatch" and "pull_request" events. Got "${name}"`,
+			);
+	}
+};
@@ -0,0 +1,66 @@
+import * as core from '@actions/core';
+
+/**
+ * Reads an input by its name in action.yml. Returns "" if the input wasn't set.
+ *
+ * Inside GitHub Actions, inputs come from the workflow. The CLI reads them from flags instead.
+ */
+export type InputReader = (name: string) => string;
+
+/** Reads the inputs of the running GitHub Action */
+export const actionInputs: InputReader = name => core.getInput(name);
+
+/** Reads inputs from a map of input names to values, like the CLI's flags */
+export const inputsFrom =
+	(values: Record<string, string | undefined>): InputReader =>
+	name =>
+		values[name]?.trim() ?? '';
+
+/** Reads an input, throwing if it wasn't set */
+export const getRequiredInput = (inputs: InputReader, name: string): string => {
+	const value = inputs(name);
+	if (value === '') {
+		throw new Error(`Input required and not supplied: ${name}`);
+	}
+	return value;
+};
+
+/**
+ * Parses a boolean input the way @actions/core does: true, True, TRUE, false, False or FALSE.
+ *
+ * Returns null if the input wasn't set. Throws if it isn't a boolean.
+ */
+export const getBooleanInput = (inputs: InputReader, name: string): boolean | null => {
+	const value = inputs(name);
+	if (value === '') {
+		return null;
+	}
+	if (['true', 'True', 'TRUE'].includes(value)) {
+		return true;
+	}
+	if (['false', 'False', 'FALSE'].includes(value)) {
+		return false;
+	}
+	throw new TypeError(`Input ${name} must be one of true, True, TRUE, false, False or FALSE. Got "${value}"`);
+};
+
+/** Parses a comma or newline separated list input, like "a, b\nc" */
+export const getListInput = (inputs: InputReader, name: string): string[] =>
+	inputs(name)
+		.split(/[,\n]/)
+		.map(item => item.trim())
+		.filter(item => item !== '');
+
+/**
+ * Parses a newline separated list of patterns. Unlike other lists, commas don't separate patterns, since they're used
+ * by brace expansion: "release/{5,6}.*"
+ */
+export const getPatternListInput = (
+	inputs: InputReader,
+	name: string,
+	{ required = false }: { required?: boolean } = {},
+): string[] =>
+	(required ? getRequiredInput(inputs, name) : inputs(name))
+		.split('\n')
+		.map(item => item.trim())
+		.filter(item => item !== '');
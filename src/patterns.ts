@@ -0,0 +1,19 @@
+import { minimatch } from 'minimatch';
+
+/** Selects branches by name: any branch matching an "include" pattern, unless it also matches an "exclude" pattern */
+export type BranchPatterns = {
+	include: string[];
+	exclude: string[];
+};
+
+/** true if the branch matches any include pattern and no exclude pattern */
+export const matchesPatterns = (branch: string, { include, exclude }: BranchPatterns): boolean =>
+	include.some(pattern => minimatch(branch, pattern)) && exclude.some(pattern => minimatch(branch, pattern)) === false;
+
+/** Returns the first include pattern the branch matches, or "" if none do */
+export const matchingPattern = (branch: string, { include }: BranchPatterns): string =>
+	include.find(pattern => minimatch(branch, pattern)) ?? '';
+
+/** Describes the patterns for logs, e.g. "release/*, hotfix/* (excluding release/old-*)" */
+export const describePatterns = ({ include, exclude }: BranchPatterns): string =>
+	exclude.length === 0 ? include.join(', ') : `${include.join(', ')} (excluding ${exclude.join(', ')})`;
@@ -0,0 +1,102 @@
+import * as core from '@actions/core';
+import { KickStrategy, MergeMethod } from './config';
+import { tableCell } from './summary';
+
+/** A write to GitHub that sync-branches may perform */
+export type PlannedWrite =
+	| { action: 'createBranch'; branch: string; sha: string }
+	| { action: 'merge'; base: string; head: string }
+	| { action: 'rebuildBranch'; branch: string; source: string; target: string; squash: boolean }
+	| { action: 'createPR'; head: string; base: string; title: string; draft: boolean }
+	| { action: 'updatePR'; pull_number: number; title: string }
+	| { action: 'comment'; pull_number: number; body: string }
+	| { action: 'addLabel'; pull_number: number; label: string }
+	| { action: 'removeLabel'; pull_number: number; label: string }
+	| { action: 'kickCI'; pull_number: number; strategy: KickStrategy }
+	| { action: 'requestReviewers'; pull_number: number; reviewers: string[]; team_reviewers: string[] }
+	| { action: 'addAssignees'; pull_number: number; assignees: string[] }
+	| { action: 'enableAutoMerge'; pull_number: number; merge_method: MergeMethod }
+	| { action: 'disableAutoMerge'; pull_number: number }
+	| { action: 'convertToDraft'; pull_number: number }
+	| { action: 'markReadyForReview'; pull_number: number }
+	| { action: 'deleteBranch'; branch: string }
+	| { action: 'closePR'; pull_number: number; reason: string };
+
+/** Describes a write to GitHub that was skipped because this is a dry run */
+export type PlannedAction = {
+	/** The name of the sync rule that would have taken this action. null when cleaning up after a branch no rule covers. */
+	rule: string | null;
+	/** The repository the write would happen in, as "owner/repo". null for this repository. */
+	targetRepo: string | null;
+} & PlannedWrite;
+
+/** Describes a write in a short sentence, e.g. "merge main into merge/a_to_main" */
+const describeWrite = (planned: PlannedWrite): string => {
+	switch (planned.action) {
+		case 'createBranch':
+			return `create branch ${planned.branch} at ${planned.sha}`;
+		case 'merge':
+			return `merge ${planned.head} into ${planned.base}`;
+		case 'rebuildBranch':
+			return `reset ${planned.branch} to a fresh ${planned.squash ? 'squashed ' : ''}merge of ${planned.source} onto ${
+				planned.target
+			}`;
+		case 'createPR':
+			return `open ${planned.draft ? 'draft ' : ''}PR "${planned.title}" from ${planned.head} to ${planned.base}`;
+		case 'updatePR':
+			return `update the title ("${planned.title}") and body of #${planned.pull_number}`;
+		case 'comment':
+			return `comment on #${planned.pull_number}`;
+		case 'addLabel':
+			return `add label "${planned.label}" to #${planned.pull_number}`;
+		case 'removeLabel':
+			return `remove label "${planned.label}" from #${planned.pull_number}`;
+		case 'kickCI':
+			return planned.strategy === 'workflow-dispatch'
+				? `dispatch a workflow to kick CI on #${planned.pull_number}`
+				: `close and reopen #${planned.pull_number} to kick CI`;
+		case 'requestReviewers':
+			return `request reviews on #${planned.pull_number} from ${[
+				...planned.reviewers,
+				...planned.team_reviewers.map(t => `team ${t}`),
+			].join(', ')}`;
+		case 'addAssignees':
+			return `assign ${planned.assignees.join(', ')} to #${planned.pull_number}`;
+		case 'enableAutoMerge':
+			return `enable auto-merge (${planned.merge_method}) on #${planned.pull_number}`;
+		case 'disableAutoMerge':
+			return `disable auto-merge on #${planned.pull_number}`;
+		case 'convertToDraft':
+			return `convert #${planned.pull_number} to a draft`;
+		case 'markReadyForReview':
+			return `mark #${planned.pull_number} ready for review`;
+		case 'deleteBranch':
+			return `delete branch ${planned.branch}`;
+		case 'closePR':
+			return `close #${planned.pull_number}: ${planned.reason}`;
+	}
+};
+
+/** Describes a planned action in a short sentence, naming its repository if it isn't this one */
+export const describePlannedAction = (planned: PlannedAction): string =>
+	planned.targetRepo === null ? describeWrite(planned) : `${describeWrite(planned)} in ${planned.targetRepo}`;
+
+/** Writes the plan to the job summary as a table */
+export const writePlanSummary = async (plan: PlannedAction[]): Promise<void> => {
+	core.summary.addHeading('sync-branches dry run', 2);
+
+	if (plan.length === 0) {
+		core.summary.addRaw('Nothing to do.', true);
+	} else {
+		core.summary.addTable([
+			[
+				{ data: 'Rule', header: true },
+				{ data: 'Action', header: true },
+				{ data: 'Description', header: true },
+			],
+			...plan.map(planned => [planned.rule ?? '', planned.action, tableCell(describePlannedAction(planned))]),
+		]);
+	}
+
+	await core.summary.write();
+};
@@ -0,0 +1,82 @@
+import * as core from '@actions/core';
+import { escape } from 'lodash';
+import { SyncErrorKind } from './errors';
+
+/**
+ * What happened to the sync PR for a source/target pair
+ *
+ * - "created": A new PR was opened (or would have been, in a dry run)
+ * - "updated": The existing PR's branch, title or body changed (or would have, in a dry run)
+ * - "unchanged": The existing PR was already up to date
+ * - "skipped": Nothing was done. See the reason.
+ * - "failed": An error stopped the sync. See the reason.
+ */
+export type PairStatus = 'created' | 'updated' | 'unchanged' | 'skipped' | 'failed';
+
+/** The outcome of bringing the intermediate branch up to date with the source or target branch */
+export type MergeResult = 'merged' | 'up-to-date' | 'conflict' | 'none';
+
+/** Describes how a single source/target pair was synced */
+export type PairResult = {
+	/** The name of the sync rule that evaluated this pair */
+	rule: string;
+	/** The source branch (changes come FROM this branch) */
+	sourceBranch: string;
+	/** The target branch (changes are heading TO this branch) */
+	targetBranch: string;
+	/** The repository the target branch is in, as "owner/repo". null for this repository. */
+	targetRepo: string | null;
+
+	/** The sync PR, if there is one */
+	pr: { number: number; url: string; headBranch: string; baseBranch: string } | null;
+	status: PairStatus;
+	/** Why the pair was skipped, or the error it failed with */
+	reason: string | null;
+	/** What went wrong, if the pair failed */
+	error: { kind: SyncErrorKind; status: number | null } | null;
+
+	/** The result of merging the source branch into the intermediate branch */
+	sourceMerge: MergeResult;
+	/** The result of merging the target branch into the intermediate branch */
+	targetMerge: MergeResult;
+};
+
+/**
+ * Renders text for a job summary table cell. The cells are HTML, so markdown code spans (like the branch names in skip
+ * reasons) become <code> elements.
+ */
+export const tableCell = (text: string): string => escape(text).replace(/`([^`]+)`/g, '<code>$1</code>');
+
+/** Writes a table of every evaluated source/target pair to the job summary */
+export const writeSyncSummary = async (results: PairResult[]): Promise<void> => {
+	core.summary.addHeading('sync-branches', 2);
+
+	if (results.length === 0) {
+		core.summary.addRaw('No source/target pairs were evaluated.', true);
+	} else {
+		core.summary.addTable([
+			[
+				{ data: 'Rule', header: true },
+				{ data: 'Source', header: true },
+				{ data: 'Target', header: true },
+				{ data: 'PR', header: true },
+				{ data: 'Status', header: true },
+				{ data: 'Source merge', header: true },
+				{ data: 'Target merge', header: true },
+				{ data: 'Notes', header: true },
+			],
+			...results.map(result => [
+				result.rule,
+				result.sourceBranch,
+				result.targetRepo === null ? result.targetBranch : `${result.targetRepo}:${result.targetBranch}`,
+				result.pr === null ? '' : `<a href="${result.pr.url}">#${result.pr.number}</a>`,
+				result.status,
+				result.sourceMerge === 'none' ? '' : result.sourceMerge,
+				result.targetMerge === 'none' ? '' : result.targetMerge,
+				tableCell(result.reason ?? ''),
+			]),
+		]);
+	}
+
+	await core.summary.write();
+};
@@ -0,0 +1,2657 @@
+import * as core from '@actions/core';
+import { Octokit } from '@octokit/action';
+import { isEqual, isNil, once, uniq, without } from 'lodash';
+import { braceExpand, minimatch } from 'minimatch';
+import Mustache from 'mustache';
+import { FailurePolicy, failurePolicy, getSyncRules, SyncRule } from './config';
+import { SyncError, SyncFailure, toSyncError } from './errors';
+import { PushCommit, SyncEvent } from './github-events';
+import { getBooleanInput, InputReader } from './inputs';
+import { describePatterns, matchesPatterns, matchingPattern } from './patterns';
+import { describePlannedAction, PlannedAction, PlannedWrite } from './plan';
+import { MergeResult, PairResult } from './summary';
+import {
+	mkBranchNameContext,
+	parseReferences,
+	parseSyncMarker,
+	patternCaptures,
+	renderBranchName,
+	replaceManagedSection,
+	SyncPair,
+	TemplateContext,
+	withSyncMarker,
+	wrapManagedSection,
+} from './templates';
+import { Limiter, mkLimiter, withRetries } from './throttling';
+import { selectTargets } from './versions';
+
+/** Grabs the branchName out of a ref like "refs/heads/branchName" */
+const refAsBranch = (ref: string): string | null => ref.match(/^refs\/heads\/(?<branch>.*)$/)?.groups?.branch ?? null;
+
+/** Constructs a ref from a branchName : refs/heads/brachName */
+const branchAsRef = (ref: string): string => `refs/heads/${ref}`;
+
+/**
+ * Names the intermediate branch used to merge "source" into "target" with the rule's intermediate_branch_template.
+ *
+ * Throws if the template renders to an empty name.
+ */
+const intermediateBranchName = (
+	{ name, intermediateBranchTemplate }: Pick<SyncRule, 'name' | 'intermediateBranchTemplate'>,
+	pair: SyncPair,
+): string => {
+	const branch = renderBranchName(intermediateBranchTemplate, mkBranchNameContext(name, pair));
+	if (branch === '') {
+		throw new Error(`Rule "${name}" named the intermediate branch from ${pair.source} to ${pair.target} ""`);
+	}
+	return branch;
+};
+
+/** Returns a pattern matching every intermediate branch the rule may name, e.g. "merge/**" */
+const intermediateBranchPattern = ({ intermediateBranchTemplate }: SyncRule): string => {
+	const wildcards = { rule: '*', source: '*', target: '*', source_slug: '*', target_slug: '*', hash: '*' };
+	return `${literalPrefix(renderBranchName(intermediateBranchTemplate, wildcards))}**`;
+};
+
+/**
+ * Names the intermediate branch the way sync-branches did before intermediate_branch_template existed:
+ * merge/source_to_target
+ */
+const legacyIntermediateBranchName = ({ source, target }: SyncPair): string =>
+	`merge/${source.replace(/\//g, '-')}_to_${target.replace(/\//g, '-')}`;
+
+/**
+ * true if "head" is named like a legacy intermediate branch targeting "base".
+ *
+ * Legacy sync PRs don't record their source branch, so we can only check the naming scheme.
+ */
+const isLegacyIntermediateBranchFor = (head: string, base: string): boolean =>
+	head.startsWith('merge/') && head.endsWith(`_to_${base.replace(/\//g, '-')}`);
+
+/**
+ * Records a write that would have happened, if this is a dry run.
+ *
+ * Returns true if the caller should skip the write, otherwise false.
+ */
+const skipForDryRun = (
+	ctx: Pick<RunContext, 'owner' | 'repo' | 'sourceRepo' | 'dryRun' | 'plan'> & { name: string | null },
+	write: PlannedWrite,
+): boolean => {
+	if (ctx.dryRun === false) {
+		return false;
+	}
+
+	const planned: PlannedAction = { rule: ctx.name, targetRepo: targetRepoName(ctx), ...write };
+	core.info(`[dry run] Would ${describePlannedAction(planned)}`);
+	ctx.plan.push(planned);
+	return true;
+};
+
+/** The items of a listing, and whether listLimit cut it short */
+type Listing<T> = { items: T[]; truncated: boolean };
+
+/**
+ * Collects every item from a paginated listing, stopping once more than "listLimit" items have been seen.
+ *
+ * Warns if the limit is hit, since the results will be incomplete. Callers that act on what's missing from a listing
+ * (like cleanUp) must check "truncated".
+ */
+const collectPages = async <T>(
+	{ listLimit }: Pick<RunContext, 'listLimit'>,
+	description: string,
+	pages: AsyncIterable<{ data: T[] }>,
+): Promise<Listing<T>> => {
+	const items: T[] = [];
+	for await (const { data } of pages) {
+		items.push(...data);
+		if (items.length > listLimit) {
+			core.warning(
+				`Stopped listing ${description} after ${listLimit} items, so some may have been missed. Increase list_limit to list more.`,
+			);
+			return { items: items.slice(0, listLimit), truncated: true };
+		}
+	}
+	return { items, truncated: false };
+};
+
+/** Lists every PR matching the given parameters, across all pages */
+const listPulls = async (
+	ctx: RunContext,
+	params: Omit<NonNullable<Parameters<Octokit['pulls']['list']>[0]>, 'owner' | 'repo' | 'per_page'>,
+): Promise<Listing<Awaited<ReturnType<Octokit['pulls']['list']>>['data'][number]>> => {
+	const { owner, repo, actionsOctokit } = ctx;
+	return collectPages(
+		ctx,
+		'pull requests',
+		actionsOctokit.paginate.iterator('GET /repos/{owner}/{repo}/pulls', { owner, repo, per_page: 100, ...params }),
+	);
+};
+
+/**
+ * Returns the literal prefix shared by every branch the pattern can match, e.g. "release/" for "release/*".
+ *
+ * Returns "" if the pattern starts with a glob character.
+ */
+const literalPrefix = (pattern: string): string => pattern.match(/^[^*?[\]{}()!+@\\]*/)?.[0] ?? '';
+
+/**
+ * Lists the names of every branch that could match one of the given patterns.
+ *
+ * When every pattern has a literal prefix, branches are filtered server-side by prefix, which keeps repos with
+ * thousands of branches fast. Results still need to be matched against the patterns.
+ */
+const listBranches = async (ctx: RunContext, patterns: string[]): Promise<Listing<string>> => {
+	const { owner, repo, actionsOctokit } = ctx;
+
+	const prefixes = uniq(patterns.flatMap(pattern => braceExpand(pattern)).map(literalPrefix));
+	if (prefixes.includes('')) {
+		core.debug(`Listing all branches, since a pattern lacks a literal prefix: ${patterns}`);
+		const { items: branches, truncated } = await collectPages(
+			ctx,
+			'branches',
+			actionsOctokit.paginate.iterator('GET /repos/{owner}/{repo}/branches', { owner, repo, per_page: 100 }),
+		);
+		return { items: branches.map(b => b.name), truncated };
+	}
+
+	// Skip prefixes covered by a shorter prefix, so we don't list the same branches twice
+	const minimalPrefixes = prefixes.filter(p => prefixes.some(other => other !== p && p.startsWith(other)) === false);
+	core.debug(`Listing branches with prefixes: ${minimalPrefixes}`);
+
+	// list_limit caps the total across prefixes, like it does when listing every branch
+	const names: string[] = [];
+	for (const prefix of minimalPrefixes) {
+		const { items: refs, truncated } = await collectPages(
+			{ listLimit: ctx.listLimit - names.length },
+			'branches',
+			// Octokit's types don't list this endpoint as paginated, though GitHub pages large results
+			actionsOctokit.paginate.iterator('GET /repos/{owner}/{repo}/git/matching-refs/{ref}', {
+				owner,
+				repo,
+				ref: `heads/${prefix}`,
+				per_page: 100,
+			}) as AsyncIterable<Awaited<ReturnType<Octokit['git']['listMatchingRefs']>>>,
+		);
+		names.push(...refs.map(r => refAsBranch(r.ref)).filter((b): b is string => b !== null));
+		if (truncated) {
+			return { items: names, truncated };
+		}
+	}
+	return { items: names, truncated: false };
+};
+
+/** Fetches the given branch from the remote. Throws if not found. */
+const getBranch = async (
+	{ owner, repo, actionsOctokit }: EventContext,
+	{ branch }: { branch: string },
+): Promise<Awaited<ReturnType<Octokit['repos']['getBranch']>>['data']> => {
+	try {
+		const { data } = await actionsOctokit.repos.getBranch({ branch, owner, repo });
+		return data;
+	} catch (err) {
+		throw toSyncError(err, `find branch ${branch}`);
+	}
+};
+
+/**
+ * Checks to see if a branch exists, and if it doesn't, creates that branch
+ *
+ * Returns true if a branch was created, otherwise false. Throws if the branch _can't_ be created.I
+ */
+const createBranch = async (ctx: EventContext, { branch, sha }: { branch: string; sha: string }): Promise<boolean> => {
+	const { owner, repo, actionsOctokit } = ctx;
+	try {
+		const foundBranch = await actionsOctokit.repos.getBranch({ branch, owner, repo });
+		core.info(`Found branch ${branch} at ${foundBranch.data.commit.sha}`);
+		return false;
+	} catch (err) {
+		const error = toSyncError(err, `find branch ${branch}`);
+		if (error.kind !== 'not-found') {
+			throw error;
+		}
+
+		core.debug(`Branch ${branch} not found. Will try to create it.`);
+		if (skipForDryRun(ctx, { action: 'createBranch', branch, sha })) {
+			return true;
+		}
+
+		try {
+			const newBranch = await actionsOctokit.git.createRef({ owner, repo, ref: branchAsRef(branch), sha });
+			core.info(`Created branch ${branch} at ${newBranch.data.object.sha}`);
+			return true;
+		} catch (createErr) {
+			throw toSyncError(createErr, `create branch ${branch}`);
+		}
+	}
+};
+
+/**
+ * Returns the Octokit that should push to sync PR branches.
+ *
+ * Pushes made with GITHUB_TOKEN don't trigger workflows. Push with the PR Octokit instead if that's how CI is kicked.
+ */
+const pushOctokit = ({ kickStrategy, actionsOctokit, prOctokit }: EventContext): Octokit =>
+	kickStrategy === 'push' ? prOctokit : actionsOctokit;
+
+/** Names the repository sync PRs are opened in, as "owner/repo", if it isn't this one. Otherwise returns null. */
+const targetRepoName = ({
+	owner,
+	repo,
+	sourceRepo,
+}: Pick<RunContext, 'owner' | 'repo' | 'sourceRepo'>): string | null =>
+	sourceRepo === null ? null : `${owner}/${repo}`;
+
+/** Returns a context for reading source branches, which always live in the repository running this workflow */
+const sourceContext = (ctx: EventContext): EventContext =>
+	ctx.sourceRepo === null
+		? ctx
+		: { ...ctx, owner: ctx.sourceRepo.owner, repo: ctx.sourceRepo.repo, actionsOctokit: ctx.sourceRepo.octokit };
+
+/**
+ * Refers to a source branch from the repository sync PRs are opened in. Another repository in the same network sees
+ * it as "owner:branch".
+ */
+const sourceHead = ({ sourceRepo }: EventContext, branch: string): string =>
+	sourceRepo === null ? branch : `${sourceRepo.owner}:${branch}`;
+
+/** Merges "head" into "base" on the given owner/repo.
+ *
+ * Returns true if a merge commit was created, otherwise false
+ *
+ * If the merge **fails** for any reason (permission trouble, merge conflict), then this function will throw.
+ *
+ * Status code reference: https://docs.github.com/en/rest/branches/branches?apiVersion=2022-11-28#merge-a-branch--status-codes
+ */
+const merge = async (ctx: EventContext, { base, head }: { base: string; head: string }): Promise<boolean> => {
+	const { owner, repo, actionsOctokit } = ctx;
+	core.debug(`Will attempt to merge ${head} into ${base}`);
+
+	if (ctx.dryRun) {
+		// Predict whether the merge would be a no-op. This fails if base doesn't exist yet because we only planned to create it.
+		try {
+			const { data } = await actionsOctokit.repos.compareCommitsWithBasehead({
+				owner,
+				repo,
+				basehead: `${base}...${head}`,
+			});
+			if (data.ahead_by === 0) {
+				core.info(`${head} is already merged to ${base}`);
+				return false;
+			}
+		} catch {
+			core.debug(`Unable to compare ${base}...${head}. Assuming a merge is required.`);
+		}
+
+		skipForDryRun(ctx, { action: 'merge', base, head });
+		return true;
+	}
+
+	let status;
+	try {
+		({ status } = await pushOctokit(ctx).repos.merge({ owner, repo, base, head }));
+	} catch (err) {
+		throw toSyncError(err, `merge ${head} into ${base}`);
+	}
+
+	if (status === 201) {
+		core.info(`Merged ${head} into ${base}`);
+		return true;
+	}
+
+	if (status === 204) {
+		core.info(`${head} is already merged to ${base}`);
+		return false;
+	}
+
+	// Unless we receive an undocumented 2xx return code, this code is unreachable.
+	core.error(`Unknown return status (${status}). Assuming we don't need to kick CI.`);
+	return false;
+};
+
+/**
+ * Points "branch" at a fresh merge of "source" onto "target", discarding whatever was on it before. If "squash" is
+ * true, the merge is squashed into a single commit on top of "target".
+ *
+ * GitHub can only merge into a branch, so the merge happens on a temporary branch which is deleted afterwards.
+ *
+ * Returns true if the branch was updated, or false if it was already up to date.
+ *
+ * If the merge **fails** for any reason (permission trouble, merge conflict), then this function will throw.
+ */
+const rebuildBranch = async (
+	ctx: EventContext,
+	{ branch, source, target, squash }: { branch: string; source: string; target: string; squash: boolean },
+): Promise<boolean> => {
+	const { owner, repo, actionsOctokit } = ctx;
+
+	const [{ commit: sourceCommit }, { commit: targetCommit }] = await Promise.all([
+		getBranch(sourceContext(ctx), { branch: source }),
+		getBranch(ctx, { branch: target }),
+	]);
+	const message = `${squash ? 'Squash' : 'Merge'} ${source} (${sourceCommit.sha}) into ${target}`;
+
+	let current: Awaited<ReturnType<typeof getBranch>> | null = null;
+	try {
+		current = await getBranch(ctx, { branch });
+	} catch {
+		core.debug(`Branch ${branch} not found. Will create it.`);
+	}
+
+	// The merge commit records the commits it was built from, so we can tell whether it needs rebuilding
+	const parents = current?.commit.parents.map(p => p.sha) ?? [];
+	const expectedParents = squash ? [targetCommit.sha] : [targetCommit.sha, sourceCommit.sha];
+	if (current !== null && isEqual(parents, expectedParents) && current.commit.commit.message === message) {
+		core.info(`${branch} is already a fresh merge of ${source} onto ${target}`);
+		return false;
+	}
+
+	if (skipForDryRun(ctx, { action: 'rebuildBranch', branch, source, target, squash })) {
+		return true;
+	}
+
+	const tempBranch = `sync-branches/tmp/${branch}`;
+	core.debug(`Merging ${source} onto ${target} in ${tempBranch}`);
+	try {
+		await actionsOctokit.git.createRef({ owner, repo, ref: branchAsRef(tempBranch), sha: targetCommit.sha });
+	} catch (err) {
+		const error = toSyncError(err, `create branch ${tempBranch}`);
+		if (error.status !== 422 || error.message.includes('Reference already exists') === false) {
+			throw error;
+		}
+
+		// Left over from a previous run
+		try {
+			await actionsOctokit.git.updateRef({
+				owner,
+				repo,
+				ref: `heads/${tempBranch}`,
+				sha: targetCommit.sha,
+				force: true,
+			});
+		} catch (updateErr) {
+			throw toSyncError(updateErr, `reset branch ${tempBranch}`);
+		}
+	}
+
+	let sha: string;
+	try {
+		let response;
+		try {
+			response = await actionsOctokit.repos.merge({
+				owner,
+				repo,
+				base: tempBranch,
+				head: sourceCommit.sha,
+				commit_message: message,
+			});
+		} catch (err) {
+			throw toSyncError(err, `merge ${source} onto ${target}`);
+		}
+		const { status, data } = response;
+
+		if (status !== 201) {
+			// 204: Nothing to merge
+			core.info(`${source} is already merged to ${target}`);
+			sha = targetCommit.sha;
+		} else if (squash) {
+			try {
+				const { data: squashed } = await actionsOctokit.git.createCommit({
+					owner,
+					repo,
+					message,
+					tree: data.commit.tree.sha,
+					parents: [targetCommit.sha],
+				});
+				sha = squashed.sha;
+			} catch (err) {
+				throw toSyncError(err, `squash ${source} onto ${target}`);
+			}
+		} else {
+			sha = data.sha;
+		}
+	} finally {
+		try {
+			await actionsOctokit.git.deleteRef({ owner, repo, ref: `heads/${tempBranch}` });
+		} catch {
+			core.warning(`Failed to delete temporary branch ${tempBranch}`);
+		}
+	}
+
+	if (current?.commit.sha === sha) {
+		core.info(`${branch} is already up to date`);
+		return false;
+	}
+
+	try {
+		if (current === null) {
+			await pushOctokit(ctx).git.createRef({ owner, repo, ref: branchAsRef(branch), sha });
+		} else {
+			await pushOctokit(ctx).git.updateRef({ owner, repo, ref: `heads/${branch}`, sha, force: true });
+		}
+	} catch (err) {
+		throw toSyncError(err, `reset ${branch} to ${sha}`);
+	}
+	core.info(`Reset ${branch} to ${sha}`);
+	return true;
+};
+
+/** Hidden marker identifying the sticky status comment sync-branches keeps up to date on each sync PR */
+const statusCommentMarker = '<!-- sync-branches:status -->';
+
+/** Hidden marker added to the status comment once its conflicts are resolved (and the comment is minimized) */
+const resolvedMarker = '<!-- sync-branches:resolved -->';
+
+/**
+ * Hidden marker added to the status comment while the source branch conflicts with the intermediate branch. Pushes to
+ * the target branch don't retry the source merge, so they read the conflict back from here.
+ */
+const sourceConflictMarker = '<!-- sync-branches:source-conflict -->';
+
+const statusCommentTemplate = `${statusCommentMarker}
+{{#resolved}}
+${resolvedMarker}
+{{/resolved}}
+{{#sourceConflict}}
+${sourceConflictMarker}
+{{/sourceConflict}}
+\`sync-branches\` Action reports the following:
+
+| Branch | Name | Head | Status |
+| ------ | ---- | ---- | ------ |
+{{#branches}}
+| {{role}} | \`{{{name}}}\` | {{sha}} | {{{status}}} |
+{{/branches}}
+
+{{#resolved}}
+All conflicts have been resolved.
+{{/resolved}}
+{{#notes}}
+- {{{.}}}
+{{/notes}}
+
+_Last updated {{updatedAt}}_
+`;
+
+/** Returns the short SHA of the head of the given branch, or "unknown" if it can't be fetched. Never throws. */
+const getShortSHA = async (
+	{ owner, repo, actionsOctokit }: EventContext,
+	{ branch }: { branch: string },
+): Promise<string> => {
+	try {
+		const { data } = await actionsOctokit.repos.getBranch({ owner, repo, branch });
+		return data.commit.sha.slice(0, 7);
+	} catch {
+		core.debug(`Unable to fetch the head of ${branch}`);
+		return 'unknown';
+	}
+};
+
+/** Finds the sticky status comment on the given PR. Returns null if there isn't one yet. */
+const findStatusComment = async (
+	ctx: EventContext,
+	{ pull_number }: { pull_number: number },
+): Promise<{ id: number; node_id: string; body: string } | null> => {
+	const { owner, repo, actionsOctokit } = ctx;
+	const { items: comments } = await collectPages(
+		ctx,
+		`comments on #${pull_number}`,
+		actionsOctokit.paginate.iterator('GET /repos/{owner}/{repo}/issues/{issue_number}/comments', {
+			owner,
+			repo,
+			issue_number: pull_number,
+			per_page: 100,
+		}),
+	);
+
+	const found = comments.find(c => c.body?.includes(statusCommentMarker) === true);
+	return found === undefined ? null : { id: found.id, node_id: found.node_id, body: found.body ?? '' };
+};
+
+/**
+ * Returns true if the last sync of a PR found a conflict between its source and intermediate branches, according to
+ * the source conflict label or the status comment.
+ *
+ * If the status comment can't be read, this fn won't throw. It assumes there's no conflict.
+ */
+const hadSourceConflict = async (
+	ctx: EventContext,
+	{ number: pull_number, labels }: { number: number; labels: { name?: string }[] },
+): Promise<boolean> => {
+	const { sourceConflictLabel } = ctx;
+	if (sourceConflictLabel !== '' && labels.some(l => l.name === sourceConflictLabel)) {
+		return true;
+	}
+
+	try {
+		const comment = await findStatusComment(ctx, { pull_number });
+		return comment?.body.includes(sourceConflictMarker) === true;
+	} catch {
+		core.debug(`Unable to read the status comment on ${pull_number}`);
+		return false;
+	}
+};
+
+/**
+ * Creates or edits the sticky status comment on a PR, describing the head of each branch and any conflicts (notes).
+ *
+ * Without notes, no comment is created. An existing comment is marked as resolved and minimized instead.
+ * If it's later found to conflict again, it's expanded again.
+ *
+ * If the comment fails to post, this fn won't throw. It only logs.
+ */
+const updateStatusComment = async (
+	ctx: EventContext,
+	{ number: pull_number }: { number: number },
+	{
+		notes,
+		branches,
+		sourceConflict,
+	}: {
+		notes: string[];
+		/** fromSource is true for the source branch, which lives in the source repository */
+		branches: { role: string; name: string; status: string; fromSource: boolean }[];
+		sourceConflict: boolean;
+	},
+): Promise<void> => {
+	const { owner, repo, actionsOctokit } = ctx;
+	const resolved = notes.length === 0;
+
+	try {
+		const existing = await findStatusComment(ctx, { pull_number });
+		if (resolved && existing === null) {
+			core.debug('Skip commenting. Nothing to do.');
+			return;
+		}
+		if (resolved && existing?.body.includes(resolvedMarker) === true) {
+			core.debug('Status comment is already resolved. Skip commenting.');
+			return;
+		}
+
+		const heads = await Promise.all(
+			branches.map(async b => ({
+				...b,
+				sha: await getShortSHA(b.fromSource ? sourceContext(ctx) : ctx, { branch: b.name }),
+			})),
+		);
+		const body = Mustache.render(statusCommentTemplate, {
+			resolved,
+			sourceConflict,
+			notes,
+			branches: heads,
+			updatedAt: new Date().toISOString(),
+		});
+		core.debug(`Constructed status comment from ${JSON.stringify(notes)}: ${body}`);
+
+		if (skipForDryRun(ctx, { action: 'comment', pull_number, body })) {
+			return;
+		}
+
+		if (existing === null) {
+			core.info(`Posting status comment to ${pull_number}`);
+			await actionsOctokit.issues.createComment({ owner, repo, issue_number: pull_number, body });
+			core.debug('Posted status comment');
+			return;
+		}
+
+		core.info(`Updating status comment on ${pull_number}`);
+		await actionsOctokit.issues.updateComment({ owner, repo, comment_id: existing.id, body });
+		core.debug('Updated status comment');
+
+		if (resolved) {
+			core.debug('Minimizing resolved status comment');
+			await actionsOctokit.graphql(
+				`mutation($id: ID!) { minimizeComment(input: { subjectId: $id, classifier: RESOLVED }) { clientMutationId } }`,
+				{ id: existing.node_id },
+			);
+		} else if (existing.body.includes(resolvedMarker)) {
+			core.debug('Expanding status comment, since conflicts are back');
+			await actionsOctokit.graphql(
+				`mutation($id: ID!) { unminimizeComment(input: { subjectId: $id }) { clientMutationId } }`,
+				{ id: existing.node_id },
+			);
+		}
+	} catch (err) {
+		core.warning(`Failed to update status comment`);
+		if (err instanceof Error) {
+			core.warning(err);
+		} else {
+			core.warning(`${err}`);
+		}
+	}
+};
+
+/**
+ * Applies the given label to the PR
+ *
+ * If the label fails to apply, this fn won't throw. It only logs.
+ */
+const applyLabel = async (
+	ctx: EventContext,
+	{ number: pull_number, labels }: { number: number; labels: { name: string }[] },
+	{ label }: { label: string },
+): Promise<void> => {
+	const { owner, repo, actionsOctokit } = ctx;
+	if (label === '') {
+		core.debug('Empty label. Skipping application');
+		return;
+	}
+
+	if (labels.map(l => l.name).includes(label) === true) {
+		core.debug(`Already have label "${label}". Skipping application`);
+		return;
+	}
+
+	if (skipForDryRun(ctx, { action: 'addLabel', pull_number, label })) {
+		return;
+	}
+
+	try {
+		core.info(`Applying label "${label}" to ${pull_number}`);
+		await actionsOctokit.issues.addLabels({ owner, repo, issue_number: pull_number, labels: [label] });
+		core.debug(`Applied label: ${label}`);
+	} catch (err) {
+		core.warning(`Failed to apply label`);
+		if (err instanceof Error) {
+			core.warning(err);
+		} else {
+			core.warning(`${err}`);
+		}
+	}
+};
+
+/**
+ * Removes the given label from the PR
+ *
+ * If the label fails to remove, this fn won't throw. It only logs.
+ */
+const removeLabel = async (
+	ctx: EventContext,
+	{ number: pull_number, labels }: { number: number; labels: { name: string }[] },
+	{ label }: { label: string },
+): Promise<void> => {
+	const { owner, repo, actionsOctokit } = ctx;
+	if (label === '') {
+		core.debug('Empty label. Skipping removal');
+		return;
+	}
+
+	if (labels.map(l => l.name).includes(label) === false) {
+		core.debug(`Already missing label "${label}". Skipping removal`);
+		return;
+	}
+
+	if (skipForDryRun(ctx, { action: 'removeLabel', pull_number, label })) {
+		return;
+	}
+
+	try {
+		core.info(`Removing label "${label}" from ${pull_number}`);
+		await actionsOctokit.issues.removeLabel({ owner, repo, issue_number: pull_number, name: label });
+		core.debug(`Removed label: ${label}`);
+	} catch (err) {
+		core.warning(`Failed to remove label`);
+		if (err instanceof Error) {
+			core.warning(err);
+		} else {
+			core.warning(`${err}`);
+		}
+	}
+};
+
+/** Describes any conflicts we may have encountered when merging branches */
+type ConflictSummary = {
+	sourceConflict: boolean;
+	targetConflict: boolean;
+};
+
+/**
+ * Lists the files changed on both "base" and "head" since they diverged. These are the files most likely to conflict.
+ *
+ * Returns null if the branches can't be compared. This fn won't throw. It only logs.
+ */
+const findConflictingFiles = async (
+	{ owner, repo, actionsOctokit }: EventContext,
+	{ base, head }: { base: string; head: string },
+): Promise<string[] | null> => {
+	try {
+		const [{ data: headChanges }, { data: baseChanges }] = await Promise.all([
+			actionsOctokit.repos.compareCommitsWithBasehead({ owner, repo, basehead: `${base}...${head}` }),
+			actionsOctokit.repos.compareCommitsWithBasehead({ owner, repo, basehead: `${head}...${base}` }),
+		]);
+
+		const baseFiles = new Set((baseChanges.files ?? []).map(f => f.filename));
+		return (headChanges.files ?? []).map(f => f.filename).filter(f => baseFiles.has(f));
+	} catch (err) {
+		core.warning(`Failed to compare ${base} and ${head}`);
+		if (err instanceof Error) {
+			core.warning(err);
+		} else {
+			core.warning(`${err}`);
+		}
+		return null;
+	}
+};
+
+/**
+ * Describes a failed merge of "head" into "base", listing the files that probably conflict along with the git commands
+ * needed to resolve the conflict locally.
+ *
+ * The note is rendered as an item in a markdown list, so every line after the first is indented.
+ */
+const conflictNoteTemplate = `Failed to merge \`{{{head}}}\` into \`{{{base}}}\`. {{#hasFiles}}These files were changed on both branches, and probably conflict:
+
+{{#files}}
+  - \`{{{.}}}\`
+{{/files}}
+{{/hasFiles}}
+{{^hasFiles}}
+Possibly a conflict?
+{{/hasFiles}}
+
+  To resolve it locally, run the following, and fix up the conflicts when \`git merge\` stops:
+
+  \`\`\`sh
+  git fetch origin
+{{#upstream}}
+  git fetch {{{upstream}}} {{{head}}}
+{{/upstream}}
+  git switch -C {{{base}}} origin/{{{base}}}
+  git merge {{#upstream}}FETCH_HEAD{{/upstream}}{{^upstream}}origin/{{{head}}}{{/upstream}}
+  # Resolve the conflicts, then...
+  git add -A
+  git commit --no-edit
+  git push origin {{{base}}}
+  \`\`\`
+{{#hint}}
+
+  {{{hint}}}
+{{/hint}}
+`;
+
+/**
+ * Describes a failed rebuild of an intermediate branch from "source" onto "target". Hand-made fixes to the intermediate
+ * branch are discarded on the next rebuild, so the conflict has to be resolved on the source branch instead.
+ *
+ * The note is rendered as an item in a markdown list, so every line after the first is indented.
+ */
+const rebuildConflictNoteTemplate = `Failed to rebuild \`{{{intermediate}}}\` from \`{{{source}}}\` onto \`{{{target}}}\`. {{#hasFiles}}These files were changed on both branches, and probably conflict:
+
+{{#files}}
+  - \`{{{.}}}\`
+{{/files}}
+{{/hasFiles}}
+{{^hasFiles}}
+Possibly a conflict?
+{{/hasFiles}}
+
+  \`{{{intermediate}}}\` is rebuilt from scratch on every update, so the conflict has to be resolved on \`{{{source}}}\`. To resolve it locally, run the following, and fix up the conflicts when \`git merge\` stops:
+
+  \`\`\`sh
+  git fetch origin
+{{#upstream}}
+  git fetch {{{upstream}}} {{{source}}}
+  git switch -C {{{source}}} FETCH_HEAD
+{{/upstream}}
+{{^upstream}}
+  git switch -C {{{source}}} origin/{{{source}}}
+{{/upstream}}
+  git merge origin/{{{target}}}
+  # Resolve the conflicts, then...
+  git add -A
+  git commit --no-edit
+  git push {{#upstream}}{{{upstream}}}{{/upstream}}{{^upstream}}origin{{/upstream}} {{{source}}}
+  \`\`\`
+
+  Pushing to \`{{{source}}}\` rebuilds \`{{{intermediate}}}\`, and updates this PR.
+`;
+
+/**
+ * Constructs a note describing a failed merge. See conflictNoteTemplate.
+ *
+ * If "fromSource" is true, "head" is a source branch, which may have to be fetched from the source repository.
+ */
+const describeConflict = async (
+	ctx: EventContext,
+	{ base, head, hint, fromSource }: { base: string; head: string; hint: string; fromSource: boolean },
+): Promise<string> => {
+	const files = (await findConflictingFiles(ctx, { base, head: fromSource ? sourceHead(ctx, head) : head })) ?? [];
+	const server = process.env.GITHUB_SERVER_URL ?? 'https://github.com';
+	const upstream =
+		fromSource && ctx.sourceRepo !== null ? `${server}/${ctx.sourceRepo.owner}/${ctx.sourceRepo.repo}.git` : '';
+	return Mustache.render(conflictNoteTemplate, {
+		base,
+		head,
+		upstream,
+		files,
+		hasFiles: files.length > 0,
+		hint,
+	}).trimEnd();
+};
+
+/**
+ * Constructs a note describing a failed rebuild of an intermediate branch. See rebuildConflictNoteTemplate.
+ */
+const describeRebuildConflict = async (
+	ctx: EventContext,
+	{ intermediate, source, target }: { intermediate: string; source: string; target: string },
+): Promise<string> => {
+	const files = (await findConflictingFiles(ctx, { base: target, head: sourceHead(ctx, source) })) ?? [];
+	const server = process.env.GITHUB_SERVER_URL ?? 'https://github.com';
+	const upstream = ctx.sourceRepo !== null ? `${server}/${ctx.sourceRepo.owner}/${ctx.sourceRepo.repo}.git` : '';
+	return Mustache.render(rebuildConflictNoteTemplate, {
+		intermediate,
+		source,
+		target,
+		upstream,
+		files,
+		hasFiles: files.length > 0,
+	}).trimEnd();
+};
+
+/** Whether a PR is a draft after updateDraft, and whether updateDraft changed that */
+type DraftUpdate = { draft: boolean; changed: boolean };
+
+/**
+ * Converts a PR to a draft while it has conflicts, and marks it ready for review once it doesn't. Only applies to the
+ * "conflicts" draft mode. Other modes leave the PR as it is.
+ *
+ * If the PR fails to convert, this fn won't throw. It only logs.
+ */
+const updateDraft = async (
+	ctx: EventContext,
+	{ number: pull_number, node_id, draft }: { number: number; node_id: string; draft?: boolean | undefined },
+	{ conflicts }: { conflicts: ConflictSummary },
+): Promise<DraftUpdate> => {
+	const { prOctokit, draftMode } = ctx;
+	const isDraft = draft === true;
+	if (draftMode !== 'conflicts') {
+		return { draft: isDraft, changed: false };
+	}
+
+	const conflicted = conflicts.sourceConflict || conflicts.targetConflict;
+	if (conflicted === isDraft) {
+		core.debug(`${pull_number} is already ${isDraft ? 'a draft' : 'ready for review'}`);
+		return { draft: isDraft, changed: false };
+	}
+
+	if (skipForDryRun(ctx, { action: conflicted ? 'convertToDraft' : 'markReadyForReview', pull_number })) {
+		return { draft: conflicted, changed: true };
+	}
+
+	try {
+		if (conflicted) {
+			core.info(`Converting ${pull_number} to a draft, since it has conflicts`);
+			await prOctokit.graphql(
+				`mutation($id: ID!) { convertPullRequestToDraft(input: { pullRequestId: $id }) { clientMutationId } }`,
+				{ id: node_id },
+			);
+		} else {
+			core.info(`Marking ${pull_number} ready for review, since its conflicts are resolved`);
+			await prOctokit.graphql(
+				`mutation($id: ID!) { markPullRequestReadyForReview(input: { pullRequestId: $id }) { clientMutationId } }`,
+				{ id: node_id },
+			);
+		}
+		core.debug(`${pull_number} is now ${conflicted ? 'a draft' : 'ready for review'}`);
+		return { draft: conflicted, changed: true };
+	} catch (err) {
+		core.warning(`Failed to ${conflicted ? 'convert' : 'mark'} ${pull_number} ${conflicted ? 'to a draft' : 'ready'}`);
+		if (err instanceof Error) {
+			core.warning(err);
+		} else {
+			core.warning(`${err}`);
+		}
+		return { draft: isDraft, changed: false };
+	}
+};
+
+/**
+ * Enables GitHub auto-merge on a PR without conflicts, and disables it on a PR with conflicts. Drafts can't be merged,
+ * so auto-merge is disabled on them too.
+ *
+ * Auto-merge is toggled using prOctokit, so that the eventual merge is attributed to the PAT (if provided)
+ * rather than GITHUB_TOKEN, and still triggers workflows (e.g. to continue a version cascade).
+ *
+ * If auto-merge fails to toggle, this fn won't throw. It only logs.
+ */
+const updateAutoMerge = async (
+	ctx: EventContext,
+	{
+		number: pull_number,
+		node_id,
+		auto_merge,
+	}: { number: number; node_id: string; auto_merge: Record<string, unknown> | null },
+	{ conflicts, draft }: { conflicts: ConflictSummary; draft: boolean },
+): Promise<void> => {
+	const { prOctokit, autoMerge, autoMergeMethod } = ctx;
+	if (autoMerge === false) {
+		return;
+	}
+
+	const conflicted = conflicts.sourceConflict || conflicts.targetConflict;
+	const mergeable = conflicted === false && draft === false;
+	const enabled = auto_merge !== null;
+
+	try {
+		if (mergeable === false && enabled) {
+			if (skipForDryRun(ctx, { action: 'disableAutoMerge', pull_number })) {
+				return;
+			}
+
+			core.info(`Disabling auto-merge on ${pull_number}, since it ${conflicted ? 'has conflicts' : 'is a draft'}`);
+			await prOctokit.graphql(
+				`mutation($id: ID!) { disablePullRequestAutoMerge(input: { pullRequestId: $id }) { clientMutationId } }`,
+				{ id: node_id },
+			);
+			core.debug(`Disabled auto-merge on ${pull_number}`);
+		} else if (mergeable && enabled === false) {
+			if (skipForDryRun(ctx, { action: 'enableAutoMerge', pull_number, merge_method: autoMergeMethod })) {
+				return;
+			}
+
+			core.info(`Enabling auto-merge (${autoMergeMethod}) on ${pull_number}`);
+			await prOctokit.graphql(
+				`mutation($id: ID!, $mergeMethod: PullRequestMergeMethod!) { enablePullRequestAutoMerge(input: { pullRequestId: $id, mergeMethod: $mergeMethod }) { clientMutationId } }`,
+				{ id: node_id, mergeMethod: autoMergeMethod.toUpperCase() },
+			);
+			core.debug(`Enabled auto-merge on ${pull_number}`);
+		} else {
+			core.debug(`Auto-merge on ${pull_number} is already ${enabled ? 'enabled' : 'disabled'}`);
+		}
+	} catch (err) {
+		core.warning(`Failed to ${mergeable ? 'enable' : 'disable'} auto-merge on ${pull_number}`);
+		if (err instanceof Error) {
+			core.warning(err);
+		} else {
+			core.warning(`${err}`);
+		}
+	}
+};
+
+/**
+ * Adds labels and comments describing merge conflicts to a PR, and toggles its draft state and auto-merge accordingly.
+ * Returns the PR's draft state.
+ *
+ * This function is designed not to throw. It will log if there are failures
+ * creating comments or adding/removing labels.
+ */
+const reportConflicts = async (
+	ctx: EventContext,
+	pr: {
+		number: number;
+		node_id: string;
+		labels: { name: string }[];
+		auto_merge: Record<string, unknown> | null;
+		draft?: boolean | undefined;
+	},
+	{
+		sourceBranch,
+		targetBranch,
+		intermediateBranch,
+		conflicts,
+	}: {
+		sourceBranch: string;
+		targetBranch: string;
+		intermediateBranch: string;
+		conflicts: ConflictSummary;
+	},
+): Promise<DraftUpdate> => {
+	const notes: string[] = [];
+	// Rebuilds merge the source and target branches in one go, so their conflicts are always target conflicts
+	const rebuilds = ctx.useIntermediateBranch && ctx.intermediateStrategy !== 'merge';
+
+	if (conflicts.sourceConflict) {
+		notes.push(
+			await describeConflict(ctx, {
+				base: intermediateBranch,
+				head: sourceBranch,
+				fromSource: true,
+				hint: `Alternatively, it may help to delete branch \`${intermediateBranch}\` and re-run your \`sync-branches\` job in order to start fresh.`,
+			}),
+		);
+		applyLabel(ctx, pr, { label: ctx.sourceConflictLabel });
+	} else {
+		core.debug(`Encountered no ${sourceBranch} => ${intermediateBranch} conflict`);
+		removeLabel(ctx, pr, { label: ctx.sourceConflictLabel });
+	}
+
+	if (conflicts.targetConflict) {
+		notes.push(
+			rebuilds
+				? await describeRebuildConflict(ctx, {
+						intermediate: intermediateBranch,
+						source: sourceBranch,
+						target: targetBranch,
+				  })
+				: await describeConflict(ctx, {
+						base: intermediateBranch,
+						head: targetBranch,
+						fromSource: false,
+						hint: 'Check the status of this PR below.',
+				  }),
+		);
+		applyLabel(ctx, pr, { label: ctx.targetConflictLabel });
+	} else {
+		core.debug(`Encountered no ${targetBranch} => ${intermediateBranch} conflict`);
+		removeLabel(ctx, pr, { label: ctx.targetConflictLabel });
+	}
+
+	for (const note of notes) {
+		core.warning(note);
+	}
+
+	const status = (conflict: boolean): string => (conflict ? 'Conflict' : 'Merged');
+	const branches =
+		intermediateBranch === sourceBranch
+			? [
+					{ role: 'Source', name: sourceBranch, status: '', fromSource: true },
+					{ role: 'Target', name: targetBranch, status: '', fromSource: false },
+			  ]
+			: [
+					{
+						role: 'Source',
+						name: sourceBranch,
+						status: rebuilds ? 'n/a' : status(conflicts.sourceConflict),
+						fromSource: true,
+					},
+					{ role: 'Intermediate', name: intermediateBranch, status: '', fromSource: false },
+					{ role: 'Target', name: targetBranch, status: status(conflicts.targetConflict), fromSource: false },
+			  ];
+
+	await updateStatusComment(ctx, pr, { notes, branches, sourceConflict: conflicts.sourceConflict });
+	const draft = await updateDraft(ctx, pr, { conflicts });
+	await updateAutoMerge(ctx, pr, { conflicts, draft: draft.draft });
+	return draft;
+};
+
+/**
+ * Starts CI on a sync PR after a merge was pushed to it, using the rule's kick strategy.
+ *
+ * Pushes made with GITHUB_TOKEN don't trigger workflows, so CI has to be started another way:
+ *
+ * - "close-reopen": Closes the PR, waits for kickDelay, then reopens it. Only works with PR_CREATE_TOKEN.
+ * - "push": Nothing to do. The merge was already pushed with PR_CREATE_TOKEN.
+ * - "workflow-dispatch": Dispatches kickWorkflow on the PR's head branch.
+ * - "none": Nothing to do.
+ */
+const kickCI = async (
+	ctx: EventContext,
+	{ number: pull_number, head }: { number: number; head: { ref: string } },
+): Promise<void> => {
+	const { owner, repo, actionsOctokit, prOctokit, kickStrategy, kickWorkflow, kickDelay } = ctx;
+
+	switch (kickStrategy) {
+		case 'none':
+			core.debug('Kick strategy is "none". Skipping CI kick.');
+			return;
+
+		case 'push':
+			core.debug('The merge was pushed with the PR Octokit, so CI has already started. Skipping CI kick.');
+			return;
+
+		case 'workflow-dispatch':
+			if (skipForDryRun(ctx, { action: 'kickCI', pull_number, strategy: kickStrategy })) {
+				return;
+			}
+
+			core.info(`Kicking CI by dispatching ${kickWorkflow} on ${head.ref}`);
+			await actionsOctokit.actions.createWorkflowDispatch({ owner, repo, workflow_id: kickWorkflow, ref: head.ref });
+			core.debug(`Dispatched ${kickWorkflow}`);
+			return;
+
+		case 'close-reopen':
+			if (actionsOctokit === prOctokit) {
+				core.debug('Actions Octokit is the same as PR Octokit. Skipping CI kick.');
+				return;
+			}
+
+			if (skipForDryRun(ctx, { action: 'kickCI', pull_number, strategy: kickStrategy })) {
+				return;
+			}
+
+			core.info('Kicking CI with a Close + Reopen');
+
+			core.debug(`Closing ${pull_number}`);
+			await prOctokit.pulls.update({ owner, repo, pull_number, state: 'closed' });
+			core.debug(`Closed ${pull_number}`);
+
+			// Give GitHub a moment
+			await new Promise(resolve => setTimeout(resolve, kickDelay));
+
+			core.debug(`Reopening ${pull_number}`);
+			await prOctokit.pulls.update({ owner, repo, pull_number, state: 'open' });
+			core.debug(`Reopened ${pull_number}`);
+			return;
+	}
+};
+
+/** Everything about this run that doesn't depend on the rule or branch being synced */
+type RunContext = {
+	/** The owner of the repo sync PRs are opened in: "gravwell" in "gravwell/frontend" */
+	owner: string;
+	/** The name of the repo sync PRs are opened in: "frontend" in "gravwell/frontend" */
+	repo: string;
+	/**
+	 * The repository running this workflow, where source branches live, when sync PRs are opened in another repository.
+	 * Its branches are read with "octokit". null when syncing within this repository.
+	 */
+	sourceRepo: { owner: string; repo: string; octokit: Octokit } | null;
+
+	/** The most items to collect from any paginated listing (branches, PRs) */
+	listLimit: number;
+	/** How long to wait between closing and reopening a PR to kick CI, in milliseconds */
+	kickDelay: number;
+	/** Bounds how many source/target pairs are synced at once. Shared by every rule. */
+	limit: Limiter;
+
+	/** true if writes should be recorded to "plan" instead of sent to GitHub */
+	dryRun: boolean;
+	/** Writes skipped because this is a dry run. Shared by every rule. */
+	plan: PlannedAction[];
+
+	/**
+	 * The default instance of octokit created using GITHUB_TOKEN.
+	 * When syncing into another repository, this is prOctokit, since GITHUB_TOKEN can only access this one.
+	 */
+	actionsOctokit: Octokit;
+	/** The instance of Octokit that should be used to create/update sync PRs */
+	prOctokit: Octokit;
+};
+
+/** Everything about this run that doesn't depend on which branch is being synced */
+type RuleContext = SyncRule & RunContext;
+
+type EventContext = RuleContext & {
+	/**
+	 * The NAME of the branch (not the full ref) that was pushed to. The one that triggered this workflow.
+	 *
+	 * When reconciling (schedule/workflow_dispatch), this is the source branch currently being synced.
+	 */
+	pushedBranch: string;
+};
+
+/** Describes an updated PR */
+export type PRUpdate = {
+	/** The name of the sync rule that produced this update */
+	rule: string;
+
+	/** The source branch (changes come FROM this branch) */
+	sourceBranch: string;
+	/** The target branch (changes are heading TO this branch) */
+	targetBranch: string;
+	/** The repository the PR was opened in, as "owner/repo". null for this repository. */
+	targetRepo: string | null;
+
+	/** The head branch of the PR (same as source branch unless using an intermediate branch) */
+	headBranch: string;
+	/** The base branch of the PR (same as target branch) */
+	baseBranch: string;
+
+	/** The URL of the PR's web page */
+	url: string;
+};
+
+/** Describes a source/target pair that wasn't synced */
+export type SkippedPair = {
+	/** The name of the sync rule that evaluated the pair */
+	rule: string;
+	sourceBranch: string;
+	targetBranch: string;
+	/** The repository the pair syncs into, as "owner/repo". null for this repository. */
+	targetRepo: string | null;
+	/** Why the pair was skipped */
+	reason: string;
+	/** The URL of the sync PR's web page, if there is one */
+	url: string | null;
+};
+
+/** Describes a pair's PR for the "syncedPRs" output. Returns null unless the PR was created or updated. */
+const asPRUpdate = ({ rule, sourceBranch, targetBranch, targetRepo, pr, status }: PairResult): PRUpdate | null => {
+	if (pr === null || (status !== 'created' && status !== 'updated')) {
+		return null;
+	}
+	return {
+		rule,
+		sourceBranch,
+		targetBranch,
+		targetRepo,
+		headBranch: pr.headBranch,
+		baseBranch: pr.baseBranch,
+		url: pr.url,
+	};
+};
+
+/** An empty comparison, used when the source and target branches can't be compared */
+const emptyComparison = { commits: [], ahead_by: 0, behind_by: 0, changed_files: 0, references: [] };
+
+/**
+ * Lists the commits on "source" that aren't on "target" yet, along with the size of the change.
+ *
+ * GitHub includes at most 250 commits and 300 files in a comparison.
+ *
+ * If the branches can't be compared, this fn won't throw. It only logs.
+ */
+const compareForTemplates = async (
+	{ owner, repo, actionsOctokit }: EventContext,
+	{ source, target }: { source: string; target: string },
+): Promise<Pick<TemplateContext, 'commits' | 'ahead_by' | 'behind_by' | 'changed_files' | 'references'>> => {
+	try {
+		const { data } = await actionsOctokit.repos.compareCommitsWithBasehead({
+			owner,
+			repo,
+			basehead: `${target}...${source}`,
+		});
+
+		return {
+			commits: data.commits.map(c => ({
+				sha: c.sha,
+				short_sha: c.sha.slice(0, 7),
+				subject: c.commit.message.split('\n')[0] ?? '',
+				author: c.author?.login ?? c.commit.author?.name ?? '',
+			})),
+			ahead_by: data.ahead_by,
+			behind_by: data.behind_by,
+			changed_files: (data.files ?? []).length,
+			references: parseReferences(data.commits.map(c => c.commit.message)),
+		};
+	} catch (err) {
+		core.warning(`Failed to compare ${target} and ${source}`);
+		if (err instanceof Error) {
+			core.warning(err);
+		} else {
+			core.warning(`${err}`);
+		}
+		return emptyComparison;
+	}
+};
+
+/** Gathers everything the templates may refer to for a PR from "source" to "target" via "head" */
+const mkTemplateContext = async (
+	ctx: EventContext,
+	{ source, head, target }: { source: string; head: string; target: string },
+): Promise<TemplateContext> => {
+	const [{ commit }, comparison] = await Promise.all([
+		getBranch(sourceContext(ctx), { branch: source }),
+		compareForTemplates(ctx, { source: sourceHead(ctx, source), target }),
+	]);
+
+	return {
+		rule: ctx.name,
+		source_pattern: matchingPattern(source, ctx.sourcePatterns),
+		original_source: source,
+		source: head,
+		target,
+		use_intermediate_branch: ctx.useIntermediateBranch,
+		source_author: commit.author?.login ?? '',
+		...comparison,
+		source_captures: patternCaptures(matchingPattern(source, ctx.sourcePatterns), source),
+		target_captures: patternCaptures(matchingPattern(target, ctx.targetPatterns), target),
+	};
+};
+
+/** Renders each template in a list, dropping blank and duplicate results */
+const renderList = (templates: string[], templateContext: TemplateContext): string[] =>
+	uniq(templates.map(t => Mustache.render(t, templateContext).trim()).filter(item => item !== ''));
+
+/**
+ * Requests reviews on a PR from the rule's reviewers and teams.
+ *
+ * Reviewers who already reviewed the PR are asked again, so this is also used to ping reviewers when a PR is updated.
+ * Reviews are requested with the PR Octokit, since GITHUB_TOKEN can't see an organization's teams.
+ *
+ * If the reviews fail to be requested, this fn won't throw. It only logs.
+ */
+const requestReviewers = async (
+	ctx: EventContext,
+	{ number: pull_number, user }: { number: number; user: { login: string } | null },
+	{ templateContext }: { templateContext: TemplateContext },
+): Promise<void> => {
+	const { owner, repo, prOctokit } = ctx;
+
+	// GitHub rejects the whole request if it includes the PR's author
+	const reviewers = without(renderList(ctx.reviewers, templateContext), user?.login ?? '');
+	const team_reviewers = renderList(ctx.teamReviewers, templateContext);
+	if (reviewers.length === 0 && team_reviewers.length === 0) {
+		core.debug('No reviewers. Skipping review request.');
+		return;
+	}
+
+	if (skipForDryRun(ctx, { action: 'requestReviewers', pull_number, reviewers, team_reviewers })) {
+		return;
+	}
+
+	try {
+		core.info(`Requesting reviews on ${pull_number} from ${[...reviewers, ...team_reviewers]}`);
+		await prOctokit.pulls.requestReviewers({ owner, repo, pull_number, reviewers, team_reviewers });
+		core.debug('Requested reviews');
+	} catch (err) {
+		core.warning(`Failed to request reviews`);
+		if (err instanceof Error) {
+			core.warning(err);
+		} else {
+			core.warning(`${err}`);
+		}
+	}
+};
+
+/**
+ * Assigns the rule's assignees (and the author of the latest commit on the source branch, if desired) to a PR.
+ *
+ * If the assignees fail to apply, this fn won't throw. It only logs.
+ */
+const addAssignees = async (
+	ctx: EventContext,
+	{ number: pull_number }: { number: number },
+	{ templateContext }: { templateContext: TemplateContext },
+): Promise<void> => {
+	const { owner, repo, actionsOctokit, assignSourceAuthor } = ctx;
+
+	const templates = assignSourceAuthor ? [...ctx.assignees, '{{{ source_author }}}'] : ctx.assignees;
+	const assignees = renderList(templates, templateContext);
+	if (assignees.length === 0) {
+		core.debug('No assignees. Skipping assignment.');
+		return;
+	}
+
+	if (skipForDryRun(ctx, { action: 'addAssignees', pull_number, assignees })) {
+		return;
+	}
+
+	try {
+		core.info(`Assigning ${assignees} to ${pull_number}`);
+		await actionsOctokit.issues.addAssignees({ owner, repo, issue_number: pull_number, assignees });
+		core.debug('Assigned');
+	} catch (err) {
+		core.warning(`Failed to add assignees`);
+		if (err instanceof Error) {
+			core.warning(err);
+		} else {
+			core.warning(`${err}`);
+		}
+	}
+};
+
+/**
+ * Renders the PR body template, followed by the sync marker. In "section" update mode, the rendered template is wrapped
+ * in the managed section markers.
+ */
+const renderBody = ({ prBodyTemplate, prUpdate }: EventContext, templateContext: TemplateContext): string => {
+	const rendered = Mustache.render(prBodyTemplate, templateContext);
+	return withSyncMarker(prUpdate === 'section' ? wrapManagedSection(rendered) : rendered, {
+		source: templateContext.original_source,
+		target: templateContext.target,
+	});
+};
+
+/**
+ * Re-renders the title and body templates of an existing PR, and updates the PR if they changed.
+ * In "section" update mode, only the managed section of the body is replaced.
+ *
+ * Returns true if the PR was updated (or would have been, in a dry run). If the update fails, this fn won't throw. It
+ * only logs.
+ */
+const updatePRText = async (
+	ctx: EventContext,
+	{ number: pull_number, title: oldTitle, body: oldBody }: { number: number; title: string; body: string | null },
+	{ templateContext }: { templateContext: TemplateContext },
+): Promise<boolean> => {
+	const { owner, repo, prOctokit, prTitleTemplate, prBodyTemplate, prUpdate } = ctx;
+
+	const title = Mustache.render(prTitleTemplate, templateContext);
+	const body =
+		prUpdate === 'section'
+			? withSyncMarker(replaceManagedSection(oldBody ?? '', Mustache.render(prBodyTemplate, templateContext)), {
+					source: templateContext.original_source,
+					target: templateContext.target,
+			  })
+			: renderBody(ctx, templateContext);
+
+	if (title === oldTitle && body === (oldBody ?? '')) {
+		core.debug('PR title and body are up to date.');
+		return false;
+	}
+
+	if (skipForDryRun(ctx, { action: 'updatePR', pull_number, title })) {
+		return true;
+	}
+
+	try {
+		core.info(`Updating the title and body of ${pull_number}`);
+		await prOctokit.pulls.update({ owner, repo, pull_number, title, body });
+		core.debug('Updated');
+		return true;
+	} catch (err) {
+		core.warning(`Failed to update the title and body of ${pull_number}`);
+		if (err instanceof Error) {
+			core.warning(err);
+		} else {
+			core.warning(`${err}`);
+		}
+		return false;
+	}
+};
+
+/** Summarizes a PR for a PairResult */
+const describePR = ({
+	number,
+	html_url,
+	head,
+	base,
+}: {
+	number: number;
+	html_url: string;
+	head: { ref: string };
+	base: { ref: string };
+}): NonNullable<PairResult['pr']> => ({ number, url: html_url, headBranch: head.ref, baseBranch: base.ref });
+
+/** Describes a pair that wasn't synced */
+const skippedPair = (ctx: EventContext, { source, target }: SyncPair, reason: string): PairResult => ({
+	rule: ctx.name,
+	sourceBranch: source,
+	targetBranch: target,
+	targetRepo: targetRepoName(ctx),
+	pr: null,
+	status: 'skipped',
+	reason,
+	error: null,
+	sourceMerge: 'none',
+	targetMerge: 'none',
+});
+
+/** Describes a pair that failed to sync */
+const failedPair = (ctx: EventContext, pair: SyncPair, { message, kind, status }: SyncError): PairResult => ({
+	...skippedPair(ctx, pair, message),
+	status: 'failed',
+	error: { kind, status },
+});
+
+/**
+ * Runs a merge into the intermediate branch, like "merge" or "rebuildBranch", and describes the outcome.
+ *
+ * Conflicts are reported as "conflict". Throws a SyncError if the merge fails for any other reason.
+ */
+const tryMerge = async (mergeFn: () => Promise<boolean>): Promise<MergeResult> => {
+	try {
+		return (await mergeFn()) ? 'merged' : 'up-to-date';
+	} catch (err) {
+		const error = toSyncError(err, 'merge');
+		if (error.kind !== 'conflict') {
+			throw error;
+		}
+
+		core.debug(error.message);
+		return 'conflict';
+	}
+};
+
+/**
+ * Finds the open sync PR from "source" to "target", if there is one.
+ *
+ * Direct PRs are found by their head branch, which is the source branch. PRs from an intermediate branch are found by
+ * the sync marker in their body, so renaming intermediate_branch_template doesn't orphan them. Unmarked PRs opened by
+ * older versions of sync-branches are found by their legacy intermediate branch name.
+ */
+const findSyncPR = async (
+	ctx: EventContext,
+	pair: SyncPair,
+): Promise<Awaited<ReturnType<typeof listPulls>>['items'][number] | null> => {
+	const { owner, useIntermediateBranch } = ctx;
+	const { source, target } = pair;
+
+	let found;
+	if (useIntermediateBranch) {
+		const { items: pulls } = await listPulls(ctx, { base: target, state: 'open' });
+		const intermediatePRs = pulls.filter(p => isSameRepo(ctx, p.head.repo?.full_name ?? '') && p.head.ref !== source);
+		const marked = intermediatePRs.filter(p => isEqual(parseSyncMarker(p.body), pair));
+		found =
+			marked.length > 0
+				? marked
+				: intermediatePRs.filter(
+						p => parseSyncMarker(p.body) === null && p.head.ref === legacyIntermediateBranchName(pair),
+				  );
+	} else {
+		const sourceOwner = ctx.sourceRepo?.owner ?? owner;
+		const { items: pulls } = await listPulls(ctx, { base: target, head: `${sourceOwner}:${source}`, state: 'open' });
+		found = pulls.filter(p => p.head.ref === source && p.base.ref === target);
+	}
+
+	if (found.length > 1) {
+		core.warning(`Found multiple PRs from ${source} to ${target}. That's impossible... Using the first one.`);
+	}
+	return found[0] ?? null;
+};
+
+/**
+ * Checks whether syncing a pair has been paused, either by applying the pause label to its open sync PR or (with
+ * pauseOnClose) by closing its latest sync PR without merging it. Reopening the PR, or opening a new one, resumes it.
+ *
+ * Returns the reason the pair is paused, or null if it isn't.
+ */
+const findPause = async (
+	ctx: EventContext,
+	pair: SyncPair,
+	existingPR: { number: number; labels: { name?: string }[] } | null,
+): Promise<string | null> => {
+	const { owner, useIntermediateBranch, pauseLabel, pauseOnClose } = ctx;
+
+	if (existingPR !== null) {
+		const paused = pauseLabel !== '' && existingPR.labels.some(l => l.name === pauseLabel);
+		return paused ? `Paused by the "${pauseLabel}" label on #${existingPR.number}.` : null;
+	}
+
+	if (pauseOnClose === false) {
+		return null;
+	}
+
+	// Closed PRs are looked up by head branch, so PRs from branches named by an older template aren't found
+	const heads = useIntermediateBranch
+		? uniq([intermediateBranchName(ctx, pair), legacyIntermediateBranchName(pair)]).map(head => `${owner}:${head}`)
+		: [`${ctx.sourceRepo?.owner ?? owner}:${pair.source}`];
+
+	let latest: Awaited<ReturnType<typeof listPulls>>['items'][number] | null = null;
+	for (const head of heads) {
+		const { items: pulls } = await listPulls(ctx, { base: pair.target, head, state: 'closed' });
+		for (const pr of pulls) {
+			const marked = parseSyncMarker(pr.body);
+			if (marked !== null && isEqual(marked, pair) === false) {
+				continue;
+			}
+			if (latest === null || pr.created_at > latest.created_at) {
+				latest = pr;
+			}
+		}
+	}
+
+	if (latest === null || latest.merged_at !== null || latest.body?.includes(cleanupMarker) === true) {
+		return null;
+	}
+	return `#${latest.number} was closed without merging. Reopen it to resume syncing.`;
+};
+
+/**
+ * true if every commit on the source branch is already on the target branch, so a sync PR would have nothing to merge
+ */
+const isAlreadyMerged = async (ctx: EventContext, { source, target }: SyncPair): Promise<boolean> => {
+	const { owner, repo, actionsOctokit } = ctx;
+	const basehead = `${target}...${sourceHead(ctx, source)}`;
+
+	try {
+		const { data } = await actionsOctokit.repos.compareCommitsWithBasehead({ owner, repo, basehead });
+		return data.ahead_by === 0;
+	} catch (err) {
+		throw toSyncError(err, `compare ${basehead}`);
+	}
+};
+
+/**
+ * Skips a pair whose source branch is already merged into its target branch. Its sync PR (if any) has nothing left to
+ * merge, so it's closed.
+ *
+ * Returns null if there is something to merge.
+ */
+const skipAlreadyMerged = async (
+	ctx: EventContext,
+	pair: SyncPair,
+	existingPR: {
+		number: number;
+		body: string | null;
+		html_url: string;
+		head: { ref: string };
+		base: { ref: string };
+	} | null,
+): Promise<PairResult | null> => {
+	if ((await isAlreadyMerged(ctx, pair)) === false) {
+		return null;
+	}
+
+	const reason = `Nothing to merge. Every commit on ${pair.source} is already on ${pair.target}.`;
+	core.info(`Skipping ${pair.source} => ${pair.target}. ${reason}`);
+	if (existingPR === null) {
+		return skippedPair(ctx, pair, reason);
+	}
+
+	const closed = await closePR(ctx, {
+		number: existingPR.number,
+		body: existingPR.body,
+		reason: `every commit on \`${pair.source}\` is already on \`${pair.target}\`, so there's nothing left to merge.`,
+	});
+	return {
+		...skippedPair(ctx, pair, closed ? `${reason} Closed #${existingPR.number}.` : reason),
+		pr: describePR(existingPR),
+	};
+};
+
+/** Creates/Updates a single sync PR when there is a push to the SOURCE (head) branch of that PR */
+const handlePushToSourceBranch = async (
+	ctx: EventContext,
+
+	/** The NAME of the branch (not the full ref) that requires a sync because "pushedBranch" was pushed to. */
+	targetBranch: string,
+): Promise<PairResult> => {
+	const {
+		owner,
+		repo,
+		pushedBranch,
+		useIntermediateBranch,
+		intermediateStrategy,
+		prOctokit,
+		prTitleTemplate,
+		prUpdate,
+		draftMode,
+	} = ctx;
+
+	core.info(`Opening/Updating sync PR: ${pushedBranch} => ${targetBranch}`);
+
+	// Make sure the target branch exists
+	await getBranch(ctx, { branch: targetBranch });
+
+	// Find an existing PR from the given source to the desired target branch
+	const pair = { source: pushedBranch, target: targetBranch };
+	const existingPR = await findSyncPR(ctx, pair);
+
+	const pause = await findPause(ctx, pair, existingPR);
+	if (pause !== null) {
+		core.info(`Skipping ${pushedBranch} => ${targetBranch}. ${pause}`);
+		return { ...skippedPair(ctx, pair, pause), pr: existingPR === null ? null : describePR(existingPR) };
+	}
+
+	// Check before creating any refs, so that a source branch that was already merged doesn't get an empty PR
+	const alreadyMerged = await skipAlreadyMerged(ctx, pair, existingPR);
+	if (alreadyMerged !== null) {
+		return alreadyMerged;
+	}
+
+	// Existing PRs keep their head branch, even if intermediate_branch_template has changed since they were opened
+	const head = existingPR?.head.ref ?? (useIntermediateBranch ? intermediateBranchName(ctx, pair) : pushedBranch);
+
+	const result = {
+		rule: ctx.name,
+		sourceBranch: pushedBranch,
+		targetBranch,
+		targetRepo: targetRepoName(ctx),
+		reason: null,
+		error: null,
+	};
+	const merges: Pick<PairResult, 'sourceMerge' | 'targetMerge'> = { sourceMerge: 'none', targetMerge: 'none' };
+
+	if (useIntermediateBranch && intermediateStrategy !== 'merge') {
+		// reset the intermediate branch to a fresh merge of the source branch onto the target branch
+		merges.targetMerge = await tryMerge(async () =>
+			rebuildBranch(ctx, {
+				branch: head,
+				source: pushedBranch,
+				target: targetBranch,
+				squash: intermediateStrategy === 'squash',
+			}),
+		);
+
+		if (merges.targetMerge === 'conflict') {
+			// The PR still needs a head to report the conflict on
+			const {
+				commit: { sha: baseCommit },
+			} = await getBranch(sourceContext(ctx), { branch: pushedBranch });
+			await createBranch(ctx, { branch: head, sha: baseCommit });
+		}
+	} else if (useIntermediateBranch) {
+		// Try to fetch the pushed branch
+		const {
+			commit: { sha: baseCommit },
+		} = await getBranch(sourceContext(ctx), { branch: pushedBranch });
+
+		// create the intermediate branch off of source branch (pushed branch) (if necessary)
+		await createBranch(ctx, { branch: head, sha: baseCommit });
+
+		// merge the source branch into the intermediate branch
+		// this'll be a no-op if the branch is new, but may pull in changes if it's not.
+		// Another repository can't see our branches, but can see the commits on them.
+		const sourceMergeHead = ctx.sourceRepo === null ? pushedBranch : baseCommit;
+		merges.sourceMerge = await tryMerge(async () => merge(ctx, { base: head, head: sourceMergeHead }));
+
+		// merge the target branch into the intermediate branch
+		merges.targetMerge = await tryMerge(async () => merge(ctx, { base: head, head: targetBranch }));
+	}
+
+	// Track encountered merge conflicts
+	const conflicts: ConflictSummary = {
+		sourceConflict: merges.sourceMerge === 'conflict',
+		targetConflict: merges.targetMerge === 'conflict',
+	};
+
+	// true if we need to close+reopen the PR to start CI, otherwise false
+	const needsKick = merges.sourceMerge === 'merged' || merges.targetMerge === 'merged';
+
+	if (existingPR !== null) {
+		core.info(`A PR from ${head} to ${targetBranch} already exists.`);
+
+		const draft = await reportConflicts(ctx, existingPR, {
+			sourceBranch: pushedBranch,
+			intermediateBranch: head,
+			targetBranch,
+			conflicts,
+		});
+
+		// Only gather the template context if something needs it. It costs a couple of API calls.
+		const getTemplateContext = once(async () =>
+			mkTemplateContext(ctx, { source: pushedBranch, head, target: targetBranch }),
+		);
+
+		const textUpdated =
+			prUpdate !== 'never' && (await updatePRText(ctx, existingPR, { templateContext: await getTemplateContext() }));
+
+		if (needsKick) {
+			await kickCI(ctx, existingPR);
+		} else {
+			core.debug('Skipping close+reopen.');
+		}
+
+		// Reviewers are pinged when the PR changes, or once it's marked ready for review
+		if (draft.draft) {
+			core.debug('Not requesting reviews on a draft.');
+		} else if (needsKick || draft.changed) {
+			await requestReviewers(ctx, existingPR, { templateContext: await getTemplateContext() });
+		}
+
+		if (needsKick || textUpdated || draft.changed) {
+			core.info(`Successfully updated PR: ${existingPR.html_url}`);
+			return { ...result, ...merges, pr: describePR(existingPR), status: 'updated' };
+		}
+
+		// PR existed, didn't update it, didn't kick it, didn't change it
+		return { ...result, ...merges, pr: describePR(existingPR), status: 'unchanged' };
+	}
+
+	const templateContext = await mkTemplateContext(ctx, { source: pushedBranch, head, target: targetBranch });
+
+	const title = Mustache.render(prTitleTemplate, templateContext);
+	const body = renderBody(ctx, templateContext);
+
+	// In the "conflicts" draft mode, reportConflicts marks the PR ready for review once its conflicts are resolved
+	const draft =
+		draftMode === 'always' || (draftMode === 'conflicts' && (conflicts.sourceConflict || conflicts.targetConflict));
+
+	if (skipForDryRun(ctx, { action: 'createPR', head, base: targetBranch, title, draft })) {
+		return { ...result, ...merges, pr: null, status: 'created' };
+	}
+
+	// Apparently this NEEDS read&write for PR and at least read for contents... despite what the docs say.
+	core.info('Creating a new pull request...');
+	const { data: newPr } = await prOctokit.pulls.create({
+		owner,
+		repo,
+		title,
+		body,
+		head: useIntermediateBranch ? head : sourceHead(ctx, head),
+		base: targetBranch,
+		draft,
+	});
+	core.debug(`Created new pull request: ${JSON.stringify(newPr)}`);
+
+	core.info(`Successfully created PR: ${newPr.html_url}`);
+
+	if (draft) {
+		core.debug('Not requesting reviews on a draft.');
+	} else {
+		await requestReviewers(ctx, newPr, { templateContext });
+	}
+	await addAssignees(ctx, newPr, { templateContext });
+
+	await reportConflicts(ctx, newPr, {
+		sourceBranch: pushedBranch,
+		intermediateBranch: head,
+		targetBranch,
+		conflicts,
+	});
+
+	return { ...result, ...merges, pr: describePR(newPr), status: 'created' };
+};
+
+/** Updates a single sync PR when there is a push to the TARGET (base) branch of that PR*/
+const handlePushToTargetBranch = async (
+	ctx: EventContext,
+
+	/** The NAME of the branch (not the full ref) that requires a sync because "pushedBranch" was pushed to. */
+	sourceBranch: string,
+): Promise<PairResult> => {
+	const { pushedBranch, intermediateStrategy, prUpdate } = ctx;
+
+	core.info(`Update ${sourceBranch} => ${pushedBranch}`);
+
+	// Find the existing PR from the given source to the desired target branch
+	const pair = { source: sourceBranch, target: pushedBranch };
+	const existingPR = await findSyncPR(ctx, pair);
+	if (existingPR === null) {
+		core.info(`A PR from ${sourceBranch} to ${pushedBranch} doesn't exist. Skipping update.`);
+		return skippedPair(ctx, pair, "The sync PR doesn't exist yet.");
+	}
+
+	const pause = await findPause(ctx, pair, existingPR);
+	if (pause !== null) {
+		core.info(`Skipping ${sourceBranch} => ${pushedBranch}. ${pause}`);
+		return { ...skippedPair(ctx, pair, pause), pr: describePR(existingPR) };
+	}
+
+	// The target branch may have picked up the source branch some other way, e.g. a manual merge
+	const alreadyMerged = await skipAlreadyMerged(ctx, pair, existingPR);
+	if (alreadyMerged !== null) {
+		return alreadyMerged;
+	}
+	const head = existingPR.head.ref;
+
+	const result = {
+		rule: ctx.name,
+		sourceBranch,
+		targetBranch: pushedBranch,
+		targetRepo: targetRepoName(ctx),
+		reason: null,
+		error: null,
+		pr: describePR(existingPR),
+	};
+
+	const targetMerge = await tryMerge(async () =>
+		intermediateStrategy === 'merge'
+			? merge(ctx, { base: head, head: pushedBranch })
+			: rebuildBranch(ctx, {
+					branch: head,
+					source: sourceBranch,
+					target: pushedBranch,
+					squash: intermediateStrategy === 'squash',
+			  }),
+	);
+	if (targetMerge === 'conflict') {
+		core.warning(`Failed to merge ${pushedBranch} into ${head}. Possibly a conflict?`);
+	}
+
+	// true if we need to close+reopen the PR to start CI, otherwise false
+	const needsKick = targetMerge === 'merged';
+	// Rebuilding merges the source branch again, but merging only brings in the target branch. Any conflict with the
+	// source branch is still there.
+	const conflicts: ConflictSummary = {
+		sourceConflict: intermediateStrategy === 'merge' && (await hadSourceConflict(ctx, existingPR)),
+		targetConflict: targetMerge === 'conflict',
+	};
+
+	const draft = await reportConflicts(ctx, existingPR, {
+		sourceBranch,
+		intermediateBranch: head,
+		targetBranch: pushedBranch,
+		conflicts,
+	});
+
+	// Only gather the template context if something needs it. It costs a couple of API calls.
+	const getTemplateContext = once(async () =>
+		mkTemplateContext(ctx, { source: sourceBranch, head, target: pushedBranch }),
+	);
+
+	const textUpdated =
+		prUpdate !== 'never' && (await updatePRText(ctx, existingPR, { templateContext: await getTemplateContext() }));
+
+	if (needsKick) {
+		await kickCI(ctx, existingPR);
+	} else {
+		core.debug('Skipping close+reopen.');
+	}
+
+	// Reviewers are pinged when the PR changes, or once it's marked ready for review
+	if (draft.draft) {
+		core.debug('Not requesting reviews on a draft.');
+	} else if (needsKick || draft.changed) {
+		await requestReviewers(ctx, existingPR, { templateContext: await getTemplateContext() });
+	}
+
+	if (needsKick || textUpdated || draft.changed) {
+		core.info(`Successfully updated PR: ${existingPR.html_url}`);
+		return { ...result, sourceMerge: 'none', targetMerge, status: 'updated' };
+	}
+
+	// PR existed, didn't update it, didn't kick it, didn't change it
+	return { ...result, sourceMerge: 'none', targetMerge, status: 'unchanged' };
+};
+
+/**
+ * Describes which sync PRs need attention, derived from the event that triggered this workflow
+ *
+ * - "branch": A branch was updated. Sync it as a source and/or as a target
+ * - "reconcile": Sync every source branch to each of its targets
+ * - "source": Sync a single source branch to each of its targets, or to a single target
+ */
+type SyncTrigger =
+	| { kind: 'branch'; branch: string; push: PushedChanges | null }
+	| { kind: 'reconcile' }
+	| { kind: 'source'; branch: string; target: string | null };
+
+/** What a push added to a branch. Used to decide whether the push needs syncing. */
+type PushedChanges = {
+	/** The pushed commits, oldest first */
+	commits: PushCommit[];
+	/** The number of the sync PR the push merged, if its head commit is the merge of a sync PR */
+	syncMerge: number | null;
+};
+
+/**
+ * Explains why the rule shouldn't sync a push to a source branch, or returns null if it should.
+ *
+ * A push is skipped if it merged a sync PR (with skip_sync_merges), or if every pushed commit is marked with the
+ * skip marker or only changes ignored paths.
+ */
+const findPushSkip = (
+	{ skipMarker, ignorePaths, skipSyncMerges }: SyncRule,
+	{ commits, syncMerge }: PushedChanges,
+): string | null => {
+	if (skipSyncMerges && syncMerge !== null) {
+		return `The push merged sync PR #${syncMerge}.`;
+	}
+	if (commits.length === 0) {
+		return null;
+	}
+
+	const isMarked = ({ message }: PushCommit): boolean => skipMarker !== '' && message.includes(skipMarker);
+	const isIgnored = ({ added, removed, modified }: PushCommit): boolean => {
+		const files = [...added, ...removed, ...modified];
+		return (
+			files.length > 0 && files.every(file => ignorePaths.some(pattern => minimatch(file, pattern, { dot: true })))
+		);
+	};
+
+	if (commits.every(isMarked)) {
+		return `Every pushed commit is marked ${skipMarker}.`;
+	}
+	if (commits.every(isIgnored)) {
+		return `The push only changed ignored paths (${ignorePaths.join(', ')}).`;
+	}
+	if (commits.every(c => isMarked(c) || isIgnored(c))) {
+		return `Every pushed commit is marked ${skipMarker} or only changes ignored paths.`;
+	}
+	return null;
+};
+
+/** Opens/Updates the sync PRs from "pushedBranch" to the given targets */
+const syncFromSource = async (ctx: EventContext, targets: string[]): Promise<PairResult[]> => {
+	core.debug(`Will open/update sync PRs targeting: ${targets}`);
+
+	return Promise.all(
+		targets.map(async targetBranch =>
+			ctx.limit(async () => {
+				try {
+					return await handlePushToSourceBranch(ctx, targetBranch);
+				} catch (err: unknown) {
+					const pair = { source: ctx.pushedBranch, target: targetBranch };
+					const error = toSyncError(err, `sync ${pair.source} to ${pair.target}`);
+					core.error(error);
+					return failedPair(ctx, pair, error);
+				}
+			}),
+		),
+	);
+};
+
+/** Updates the sync PRs from the given sources to "pushedBranch" */
+const syncToTarget = async (ctx: EventContext, sources: string[]): Promise<PairResult[]> => {
+	core.debug(`Will update sync PRs with sources: ${sources}`);
+
+	return Promise.all(
+		sources.map(async sourceBranch =>
+			ctx.limit(async () => {
+				try {
+					return await handlePushToTargetBranch(ctx, sourceBranch);
+				} catch (err: unknown) {
+					const pair = { source: sourceBranch, target: ctx.pushedBranch };
+					const error = toSyncError(err, `sync ${pair.source} to ${pair.target}`);
+					core.error(error);
+					return failedPair(ctx, pair, error);
+				}
+			}),
+		),
+	);
+};
+
+/**
+ * Creates/Updates the sync PRs described by a single rule in a single repository
+ *
+ * "branches" are the branches of this repository, and "targetBranches" those of the repository sync PRs are opened in.
+ */
+const syncRuleInRepo = async (
+	ctx: RuleContext,
+	trigger: SyncTrigger,
+	{ branches, targetBranches }: { branches: string[]; targetBranches: string[] },
+): Promise<PairResult[]> => {
+	const { name, sourcePatterns, targetPatterns, targetSelection } = ctx;
+	const results: PairResult[] = [];
+
+	const allSources = branches.filter(b => matchesPatterns(b, sourcePatterns));
+	const allTargets = targetBranches.filter(b => matchesPatterns(b, targetPatterns));
+
+	switch (trigger.kind) {
+		case 'branch': {
+			const pushedBranch = trigger.branch;
+
+			// If this action was triggered by a push to a SOURCE branch...
+			if (matchesPatterns(pushedBranch, sourcePatterns) === true) {
+				core.debug(`Matched source pattern: ${JSON.stringify({ rule: name, pushedBranch, sourcePatterns })}`);
+				const targets = selectTargets(pushedBranch, allTargets, targetSelection);
+
+				const skip = trigger.push === null ? null : findPushSkip(ctx, trigger.push);
+				if (skip !== null) {
+					core.info(`Not syncing ${pushedBranch} with rule "${name}". ${skip}`);
+					results.push(
+						...targets.map(target => skippedPair({ ...ctx, pushedBranch }, { source: pushedBranch, target }, skip)),
+					);
+				} else {
+					results.push(...(await syncFromSource({ ...ctx, pushedBranch }, targets)));
+				}
+			}
+
+			// If this action was triggered by a push to a TARGET branch...
+			// Pushes to other repositories don't run this workflow, so their targets are only updated from the source side.
+			// Without an intermediate branch, sync PRs come straight from their source branch, so there's nothing to update.
+			if (
+				ctx.sourceRepo === null &&
+				ctx.useIntermediateBranch &&
+				matchesPatterns(pushedBranch, targetPatterns) === true
+			) {
+				core.debug(`Matched target pattern: ${JSON.stringify({ rule: name, pushedBranch, targetPatterns })}`);
+				const sources = allSources.filter(b => selectTargets(b, allTargets, targetSelection).includes(pushedBranch));
+				results.push(...(await syncToTarget({ ...ctx, pushedBranch }, sources)));
+			}
+			break;
+		}
+
+		case 'reconcile': {
+			core.debug(`Reconciling sources: ${allSources}`);
+			const perSource = await Promise.all(
+				allSources.map(async pushedBranch =>
+					syncFromSource({ ...ctx, pushedBranch }, selectTargets(pushedBranch, allTargets, targetSelection)),
+				),
+			);
+			results.push(...perSource.flat());
+			break;
+		}
+
+		case 'source': {
+			const { branch: pushedBranch, target } = trigger;
+			if (matchesPatterns(pushedBranch, sourcePatterns) === false) {
+				core.info(
+					`${pushedBranch} doesn't match source patterns ${describePatterns(sourcePatterns)}. Skipping rule "${name}".`,
+				);
+				break;
+			}
+
+			if (target === null) {
+				const targets = selectTargets(pushedBranch, allTargets, targetSelection);
+				results.push(...(await syncFromSource({ ...ctx, pushedBranch }, targets)));
+				break;
+			}
+
+			if (allTargets.includes(target) === false) {
+				core.info(
+					`${target} doesn't match target patterns ${describePatterns(targetPatterns)}. Skipping rule "${name}".`,
+				);
+				break;
+			}
+			results.push(...(await syncFromSource({ ...ctx, pushedBranch }, [target])));
+			break;
+		}
+	}
+
+	return results;
+};
+
+/** true if "fullName" (e.g. "gravwell/frontend") names the context's repository. Repository names aren't case sensitive. */
+const isSameRepo = ({ owner, repo }: Pick<RunContext, 'owner' | 'repo'>, fullName: string): boolean =>
+	fullName.toLowerCase() === `${owner}/${repo}`.toLowerCase();
+
+/** true if the rule opens sync PRs in this repository */
+const syncsIntoThisRepo = (ctx: Pick<RunContext, 'owner' | 'repo'>, { targetRepos }: SyncRule): boolean =>
+	targetRepos.length === 0 || targetRepos.some(fullName => isSameRepo(ctx, fullName));
+
+/**
+ * Points the context at the repository "fullName", where sync PRs will be opened. Another repository is read and
+ * written with prOctokit, since GITHUB_TOKEN can only access this one.
+ */
+const inTargetRepo = (ctx: RuleContext, fullName: string): RuleContext => {
+	if (isSameRepo(ctx, fullName)) {
+		return ctx;
+	}
+
+	const [owner = '', repo = ''] = fullName.split('/');
+	return {
+		...ctx,
+		owner,
+		repo,
+		sourceRepo: { owner: ctx.owner, repo: ctx.repo, octokit: ctx.actionsOctokit },
+		actionsOctokit: ctx.prOctokit,
+	};
+};
+
+/** Creates/Updates the sync PRs described by a single rule, in each of its target repositories */
+const syncRule = async (ctx: RuleContext, trigger: SyncTrigger, branches: string[]): Promise<PairResult[]> => {
+	const results: PairResult[] = [];
+
+	for (const fullName of ctx.targetRepos.length === 0 ? [`${ctx.owner}/${ctx.repo}`] : ctx.targetRepos) {
+		const repoCtx = inTargetRepo(ctx, fullName);
+		if (repoCtx.sourceRepo === null) {
+			results.push(...(await syncRuleInRepo(repoCtx, trigger, { branches, targetBranches: branches })));
+			continue;
+		}
+
+		core.info(`Syncing into ${fullName}`);
+		let targetBranches: string[];
+		try {
+			({ items: targetBranches } = await listBranches(repoCtx, ctx.targetPatterns.include));
+		} catch (err) {
+			throw toSyncError(err, `list branches of ${fullName}`);
+		}
+		results.push(...(await syncRuleInRepo(repoCtx, trigger, { branches, targetBranches })));
+	}
+
+	return results;
+};
+
+/**
+ * true if the given PR looks like it was opened by the given rule.
+ *
+ * PRs are recognized by the sync marker in their body. Unmarked PRs are recognized by their head branch.
+ */
+const isSyncPR = (
+	rule: SyncRule,
+	{ head, base, body }: { head: string; base: string; body: string | null | undefined },
+): boolean => {
+	if (matchesPatterns(base, rule.targetPatterns) === false) {
+		return false;
+	}
+
+	const pair = parseSyncMarker(body);
+	if (pair !== null) {
+		return matchesPatterns(pair.source, rule.sourcePatterns) && rule.useIntermediateBranch === (head !== pair.source);
+	}
+
+	if (rule.useIntermediateBranch) {
+		return isLegacyIntermediateBranchFor(head, base);
+	}
+
+	return matchesPatterns(head, rule.sourcePatterns);
+};
+
+/** Describes a branch or PR removed during cleanup */
+export type CleanupResult = {
+	/** The name of the sync rule the branch/PR belonged to, or null if no rule covers it anymore */
+	rule: string | null;
+	/** What was removed */
+	action: 'deleteBranch' | 'closePR';
+	/** The intermediate branch that was deleted, or the head branch of the PR that was closed */
+	branch: string;
+	/** The URL of the PR's web page. For deleted branches, the PR that used the branch. */
+	url: string;
+};
+
+/**
+ * Deletes the given branch
+ *
+ * If the branch fails to delete, this fn won't throw. It only logs. Returns true if the branch was deleted.
+ */
+const deleteBranch = async (
+	ctx: RunContext & { name: string | null },
+	{ branch }: { branch: string },
+): Promise<boolean> => {
+	const { owner, repo, actionsOctokit } = ctx;
+
+	if (skipForDryRun(ctx, { action: 'deleteBranch', branch })) {
+		return true;
+	}
+
+	try {
+		core.info(`Deleting branch ${branch}`);
+		await actionsOctokit.git.deleteRef({ owner, repo, ref: `heads/${branch}` });
+		core.debug(`Deleted branch ${branch}`);
+		return true;
+	} catch (err) {
+		core.warning(`Failed to delete branch ${branch}`);
+		if (err instanceof Error) {
+			core.warning(err);
+		} else {
+			core.warning(`${err}`);
+		}
+		return false;
+	}
+};
+
+/**
+ * Marks the body of a PR closed by cleanup (or because it had nothing left to merge), so closing it doesn't pause
+ * syncing its pair
+ */
+const cleanupMarker = '<!-- sync-branches:cleaned-up -->';
+
+/**
+ * Closes the given PR, leaving a comment explaining why
+ *
+ * If the PR fails to close, this fn won't throw. It only logs. Returns true if the PR was closed.
+ */
+const closePR = async (
+	ctx: RunContext & { name: string | null },
+	{ number: pull_number, body, reason }: { number: number; body: string | null; reason: string },
+): Promise<boolean> => {
+	const { owner, repo, actionsOctokit } = ctx;
+
+	if (skipForDryRun(ctx, { action: 'closePR', pull_number, reason })) {
+		return true;
+	}
+
+	try {
+		core.info(`Closing ${pull_number}: ${reason}`);
+		await actionsOctokit.issues.createComment({
+			owner,
+			repo,
+			issue_number: pull_number,
+			body: `\`sync-branches\` Action is closing this PR: ${reason}`,
+		});
+		await actionsOctokit.pulls.update({
+			owner,
+			repo,
+			pull_number,
+			state: 'closed',
+			body: `${body ?? ''}\n\n${cleanupMarker}`,
+		});
+		core.debug(`Closed ${pull_number}`);
+		return true;
+	} catch (err) {
+		core.warning(`Failed to close PR`);
+		if (err instanceof Error) {
+			core.warning(err);
+		} else {
+			core.warning(`${err}`);
+		}
+		return false;
+	}
+};
+
+/** Lists every source/target pair the current rules would sync via an intermediate branch */
+const liveIntermediatePairs = (rules: SyncRule[], branches: string[]): SyncPair[] => {
+	const live: SyncPair[] = [];
+
+	for (const rule of rules.filter(r => r.useIntermediateBranch)) {
+		const allTargets = branches.filter(b => matchesPatterns(b, rule.targetPatterns));
+		for (const source of branches.filter(b => matchesPatterns(b, rule.sourcePatterns))) {
+			for (const target of selectTargets(source, allTargets, rule.targetSelection)) {
+				live.push({ source, target });
+			}
+		}
+	}
+
+	return live;
+};
+
+/**
+ * Removes intermediate branches and sync PRs that are no longer needed:
+ *
+ * - Open sync PRs whose source or target no longer exists or no longer matches any rule are closed, and their intermediate branch is deleted
+ * - Intermediate branches whose PR was merged or closed are deleted
+ *
+ * Only PRs from intermediate branches can be recognized as sync PRs, so PRs opened directly from source branches are left alone.
+ */
+const cleanUp = async (ctx: RunContext, rules: SyncRule[], branches: string[]): Promise<CleanupResult[]> => {
+	const results: CleanupResult[] = [];
+
+	const live = liveIntermediatePairs(rules, branches);
+	const liveLegacyBranches = new Set(live.map(legacyIntermediateBranchName));
+
+	type PR = { head: { ref: string; repo: { full_name: string } | null }; base: { ref: string }; body: string | null };
+	const findRule = (pr: PR): SyncRule | null =>
+		rules.find(rule => isSyncPR(rule, { head: pr.head.ref, base: pr.base.ref, body: pr.body })) ?? null;
+	const ruleFor = (pr: PR): string | null => findRule(pr)?.name ?? null;
+	const isIntermediatePR = (pr: PR): boolean => {
+		if (isSameRepo(ctx, pr.head.repo?.full_name ?? '') === false) {
+			return false;
+		}
+		const pair = parseSyncMarker(pr.body);
+		return pair !== null ? pr.head.ref !== pair.source : isLegacyIntermediateBranchFor(pr.head.ref, pr.base.ref);
+	};
+	const isLive = (pr: PR): boolean => {
+		const pair = parseSyncMarker(pr.body);
+		return pair !== null ? live.some(l => isEqual(l, pair)) : liveLegacyBranches.has(pr.head.ref);
+	};
+
+	const { items: openPRs, truncated } = await listPulls(ctx, { state: 'open' });
+	if (truncated) {
+		// A sync PR we didn't see may still use one of the branches below
+		core.warning('Skipping cleanup, since not every open PR was listed. Increase list_limit to clean up.');
+		return results;
+	}
+	const deletedBranches = new Set<string>();
+
+	for (const pr of openPRs.filter(isIntermediatePR)) {
+		if (isLive(pr)) {
+			continue;
+		}
+
+		const name = ruleFor(pr);
+		const reason = `no rule syncs to \`${pr.base.ref}\` via \`${pr.head.ref}\` anymore. The source branch may have been deleted, or the sync rules may have changed.`;
+		if (await closePR({ ...ctx, name }, { number: pr.number, body: pr.body, reason })) {
+			results.push({ rule: name, action: 'closePR', branch: pr.head.ref, url: pr.html_url });
+		}
+
+		if (branches.includes(pr.head.ref) && (await deleteBranch({ ...ctx, name }, { branch: pr.head.ref }))) {
+			deletedBranches.add(pr.head.ref);
+			results.push({ rule: name, action: 'deleteBranch', branch: pr.head.ref, url: pr.html_url });
+		}
+	}
+
+	// Branches still in use by an open PR must be kept, even if an older PR from the same branch was closed
+	const openHeads = new Set(openPRs.map(pr => pr.head.ref));
+
+	const { items: closedPRs } = await listPulls(ctx, { state: 'closed', sort: 'updated', direction: 'desc' });
+
+	// Only the latest PR from a branch decides whether its pair is paused
+	const latestClosed = new Map<string, (typeof closedPRs)[number]>();
+	for (const pr of closedPRs.filter(isIntermediatePR)) {
+		const latest = latestClosed.get(pr.head.ref);
+		if (latest === undefined || pr.created_at > latest.created_at) {
+			latestClosed.set(pr.head.ref, pr);
+		}
+	}
+
+	for (const [branch, pr] of latestClosed) {
+		if (openHeads.has(branch) || deletedBranches.has(branch) || branches.includes(branch) === false) {
+			continue;
+		}
+
+		// GitHub can't reopen a PR whose head branch is gone, so keep the branch of a PR that pauses its pair
+		const paused = pr.merged_at === null && pr.body?.includes(cleanupMarker) !== true && findRule(pr)?.pauseOnClose;
+		if (paused === true && isLive(pr)) {
+			core.info(`Keeping ${branch}, since closing #${pr.number} paused syncing. Reopen it to resume.`);
+			continue;
+		}
+
+		const name = ruleFor(pr);
+		core.info(`#${pr.number} from ${branch} was ${pr.merged_at === null ? 'closed' : 'merged'}.`);
+		if (await deleteBranch({ ...ctx, name }, { branch })) {
+			deletedBranches.add(branch);
+			results.push({ rule: name, action: 'deleteBranch', branch, url: pr.html_url });
+		}
+	}
+
+	return results;
+};
+
+/**
+ * Returns the number of the sync PR the commit merged into "base", or null if it isn't the merge of a sync PR.
+ *
+ * Merges are recognized by GitHub's merge commit message: "Merge pull request #12 from owner/branch". Squashed or
+ * rebased sync PRs look like any other commit.
+ */
+const syncPRMergedBy = (rules: SyncRule[], base: string, commit: { message: string } | null): number | null => {
+	const match = commit?.message.match(/^Merge pull request #(?<number>\d+) from [^/\s]+\/(?<head>\S+)/);
+	const { number = '', head = '' } = match?.groups ?? {};
+	if (head === '') {
+		return null;
+	}
+
+	const isSyncMerge = rules.some(
+		rule =>
+			isSyncPR(rule, { head, base, body: null }) ||
+			(rule.useIntermediateBranch &&
+				matchesPatterns(base, rule.targetPatterns) &&
+				minimatch(head, intermediateBranchPattern(rule))),
+	);
+	return isSyncMerge ? Number(number) : null;
+};
+
+/** Works out what needs syncing in response to the event that triggered this workflow. Returns null if nothing does. */
+const getSyncTrigger = (syncEvent: SyncEvent, rules: SyncRule[]): SyncTrigger | null => {
+	switch (syncEvent.name) {
+		case 'push': {
+			const { ref, commits, head_commit } = syncEvent.event;
+			const pushedBranch = refAsBranch(ref);
+			if (isNil(pushedBranch)) {
+				throw new Error(
+					`Unable to determine head branch. ref was ${ref}. Did you forget to limit the workflow to only branches?`,
+				);
+			}
+			return {
+				kind: 'branch',
+				branch: pushedBranch,
+				push: { commits, syncMerge: syncPRMergedBy(rules, pushedBranch, head_commit) },
+			};
+		}
+
+		case 'schedule':
+			return { kind: 'reconcile' };
+
+		case 'workflow_dispatch': {
+			const source = syncEvent.event.inputs?.source ?? '';
+			const target = syncEvent.event.inputs?.target ?? '';
+			if (source === '') {
+				return { kind: 'reconcile' };
+			}
+			return { kind: 'source', branch: source, target: target === '' ? null : target };
+		}
+
+		case 'pull_request':
+		case 'pull_request_target': {
+			const { action, pull_request: pr } = syncEvent.event;
+			if (action !== 'closed' || pr.merged === false) {
+				core.info(`Nothing to do for "${action}" on #${pr.number}. Only merged sync PRs are handled.`);
+				return null;
+			}
+
+			const prBranches = { head: pr.head.ref, base: pr.base.ref, body: pr.body };
+			if (rules.some(rule => isSyncPR(rule, prBranches)) === false) {
+				core.info(`#${pr.number} isn't a sync PR. Nothing to do.`);
+				return null;
+			}
+
+			// Merging the sync PR updated its base branch, so handle it just like a push to that branch
+			core.info(`Sync PR #${pr.number} was merged into ${pr.base.ref}`);
+			return { kind: 'branch', branch: pr.base.ref, push: null };
+		}
+	}
+};
+
+/** Describes a skipped pair for the "skipped" output */
+const describeSkip = ({ rule, sourceBranch, targetBranch, targetRepo, reason, pr }: PairResult): SkippedPair => ({
+	rule,
+	sourceBranch,
+	targetBranch,
+	targetRepo,
+	reason: reason ?? '',
+	url: pr?.url ?? null,
+});
+
+/** Describes a failed pair for the "errors" output */
+const describeFailure = ({ rule, sourceBranch, targetBranch, targetRepo, reason, error }: PairResult): SyncFailure => ({
+	rule,
+	sourceBranch,
+	targetBranch,
+	targetRepo,
+	kind: error?.kind ?? 'unknown',
+	status: error?.status ?? null,
+	message: reason ?? '',
+});
+
+/** Explains why the run should fail if the results break the failure policy. Otherwise returns null. */
+const checkFailurePolicy = (failOn: FailurePolicy, results: PairResult[]): string | null => {
+	if (failOn === 'never') {
+		return null;
+	}
+
+	const failed = results.filter(r => r.status === 'failed');
+	if (failed.length > 0) {
+		return `Failed to sync ${failed.length} source/target pair(s). See the job summary or the "errors" output.`;
+	}
+
+	const conflicted = results.filter(r => r.sourceMerge === 'conflict' || r.targetMerge === 'conflict');
+	if (failOn === 'any' && conflicted.length > 0) {
+		return `${conflicted.length} sync PR(s) have merge conflicts. See the job summary.`;
+	}
+	return null;
+};
+
+/** The longest to wait for a rate limit to reset before failing the request, in milliseconds */
+const maxRateLimitWait = 5 * 60_000;
+
+/** Everything a sync needs to know, whether it runs as a GitHub Action or from the CLI */
+export type SyncOptions = {
+	/** Authenticates with GITHUB_TOKEN */
+	actionsOctokit: Octokit;
+	/** Authenticates with PR_CREATE_TOKEN, or null if it wasn't provided */
+	patOctokit: Octokit | null;
+	/** The event to respond to */
+	syncEvent: SyncEvent;
+	/** The inputs declared in action.yml */
+	inputs: InputReader;
+};
+
+/** What a sync did. The action reports it as outputs and a job summary, and the CLI prints it. */
+export type SyncOutputs = {
+	syncedPRs: PRUpdate[];
+	cleanedUp: CleanupResult[];
+	plan: PlannedAction[];
+	errors: SyncFailure[];
+	skipped: SkippedPair[];
+	/** Every source/target pair that was evaluated */
+	results: PairResult[];
+	dryRun: boolean;
+	/** Why the run should fail according to "fail_on", or null if it shouldn't */
+	failure: string | null;
+};
+
+/**
+ * Creates/Updates sync PRs according to the configured sync rules.
+ *
+ * Nothing is reported to GitHub Actions here, so that the CLI can run syncs too. See runAction.
+ */
+export async function updateSyncPRs({
+	actionsOctokit,
+	patOctokit,
+	syncEvent,
+	inputs,
+}: SyncOptions): Promise<SyncOutputs> {
+	const {
+		repository: {
+			name: repo,
+			owner: { login: owner },
+		},
+	} = syncEvent.event;
+
+	const rules = await getSyncRules(inputs);
+	// Sync PRs in other repositories can't trigger this workflow or be cleaned up from here
+	const localRules = rules.filter(rule => syncsIntoThisRepo({ owner, repo }, rule));
+
+	const trigger = getSyncTrigger(syncEvent, localRules);
+	const shouldCleanUp = getBooleanInput(inputs, 'cleanup') ?? false;
+	const dryRun = getBooleanInput(inputs, 'dry_run') ?? false;
+	if (trigger === null && shouldCleanUp === false) {
+		return { syncedPRs: [], cleanedUp: [], plan: [], errors: [], skipped: [], results: [], dryRun, failure: null };
+	}
+	core.debug(`Sync trigger: ${JSON.stringify(trigger)}`);
+
+	const failOn = failurePolicy.verify(inputs('fail_on') || 'errors');
+
+	if (dryRun) {
+		core.info('Dry run. Writes will be reported instead of performed.');
+	}
+	const plan: PlannedAction[] = [];
+
+	const remoteRepos = uniq(
+		rules.flatMap(rule => rule.targetRepos).filter(r => isSameRepo({ owner, repo }, r) === false),
+	);
+	if (remoteRepos.length > 0 && patOctokit === null) {
+		throw new Error(
+			`Syncing into ${remoteRepos.join(
+				', ',
+			)} requires PR_CREATE_TOKEN, since GITHUB_TOKEN can only access this repository`,
+		);
+	}
+
+	const pushRules = rules.filter(rule => rule.kickStrategy === 'push').map(rule => rule.name);
+	if (pushRules.length > 0 && patOctokit === null) {
+		const names = pushRules.join(', ');
+		core.warning(
+			`kick_strategy "push" (used by ${names}) requires PR_CREATE_TOKEN. Without it, merges are pushed with GITHUB_TOKEN, which doesn't start CI.`,
+		);
+	}
+
+	const maxRetries = parseInt(inputs('max_retries') || '3', 10);
+	if (isNaN(maxRetries) || maxRetries < 0) {
+		throw new Error(`max_retries must be a non-negative number. Got "${inputs('max_retries')}"`);
+	}
+	const retryOptions = { maxRetries, maxRateLimitWait };
+	withRetries(actionsOctokit, retryOptions);
+
+	// Octokit based by a PAT, if provided, otherwise the default GITHUB_TOKEN octokit
+	const prOctokit = patOctokit !== null ? withRetries(patOctokit, retryOptions) : actionsOctokit;
+
+	const listLimit = parseInt(inputs('list_limit') || '1000', 10);
+	if (isNaN(listLimit) || listLimit < 1) {
+		throw new Error(`list_limit must be a positive number. Got "${inputs('list_limit')}"`);
+	}
+
+	const kickDelay = parseFloat(inputs('kick_delay') || '5');
+	if (isNaN(kickDelay) || kickDelay < 0) {
+		throw new Error(`kick_delay must be a non-negative number. Got "${inputs('kick_delay')}"`);
+	}
+
+	const concurrency = parseInt(inputs('concurrency') || '4', 10);
+	if (isNaN(concurrency) || concurrency < 1) {
+		throw new Error(`concurrency must be a positive number. Got "${inputs('concurrency')}"`);
+	}
+
+	const runCtx: RunContext = {
+		owner,
+		repo,
+		sourceRepo: null,
+
+		listLimit,
+		kickDelay: kickDelay * 1_000,
+		limit: mkLimiter(concurrency),
+
+		dryRun,
+		plan,
+
+		actionsOctokit,
+		prOctokit,
+	};
+
+	const branchPatterns = [
+		...rules.flatMap(rule => rule.sourcePatterns.include),
+		...localRules.flatMap(rule => rule.targetPatterns.include),
+	];
+	if (shouldCleanUp) {
+		// Cleanup needs to see every intermediate branch, including those named before intermediate_branch_template changed
+		branchPatterns.push('merge/**', ...localRules.filter(r => r.useIntermediateBranch).map(intermediateBranchPattern));
+	}
+	const { items: branchNames, truncated: branchesTruncated } = await listBranches(runCtx, branchPatterns);
+
+	const results: PairResult[] = [];
+
+	if (trigger !== null) {
+		for (const rule of rules) {
+			core.info(
+				`Evaluating rule "${rule.name}": ${describePatterns(rule.sourcePatterns)} => ${describePatterns(
+					rule.targetPatterns,
+				)}`,
+			);
+			results.push(...(await syncRule({ ...rule, ...runCtx }, trigger, branchNames)));
+		}
+	}
+
+	const cleanedUp: CleanupResult[] = [];
+	if (shouldCleanUp && branchesTruncated) {
+		// Every sync PR whose source branch wasn't listed would look stale
+		core.warning('Skipping cleanup, since not every branch was listed. Increase list_limit to clean up.');
+	} else if (shouldCleanUp) {
+		core.info('Cleaning up stale intermediate branches and sync PRs');
+		cleanedUp.push(...(await cleanUp(runCtx, localRules, branchNames)));
+	}
+
+	core.info('Done');
+
+	return {
+		syncedPRs: results.map(asPRUpdate).filter((update): update is PRUpdate => update !== null),
+		cleanedUp,
+		plan,
+		errors: results.filter(r => r.status === 'failed').map(describeFailure),
+		skipped: results.filter(r => r.status === 'skipped').map(describeSkip),
+		results,
+		dryRun,
+		failure: checkFailurePolicy(failOn, results),
+	};
+}
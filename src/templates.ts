@@ -0,0 +1,186 @@
+import { createHash } from 'crypto';
+import { Decoder, object, string } from 'decoders';
+import { escapeRegExp, sortBy, uniq } from 'lodash';
+import Mustache from 'mustache';
+
+/** Describes a commit being synced, for use in templates */
+export type TemplateCommit = {
+	sha: string;
+	short_sha: string;
+	/** The first line of the commit message */
+	subject: string;
+	/** The login of the commit's author, or their git name if they aren't a GitHub user */
+	author: string;
+};
+
+/** The view passed to the Mustache templates for PR titles, bodies, reviewers and assignees */
+export type TemplateContext = {
+	rule: string;
+	source_pattern: string;
+	original_source: string;
+	source: string;
+	target: string;
+	use_intermediate_branch: boolean;
+	/** The login of the author of the latest commit on the source branch, or "" if they aren't a GitHub user */
+	source_author: string;
+
+	/** The commits on the source branch that aren't on the target branch yet */
+	commits: TemplateCommit[];
+	/** The number of commits on the source branch that aren't on the target branch */
+	ahead_by: number;
+	/** The number of commits on the target branch that aren't on the source branch */
+	behind_by: number;
+	/** The number of files the source branch changes relative to the target branch */
+	changed_files: number;
+	/** Issue and PR numbers referenced (e.g. "#123") in the commit messages, in ascending order */
+	references: number[];
+
+	/** The parts of the source branch matched by each wildcard in the source pattern */
+	source_captures: string[];
+	/** The parts of the target branch matched by each wildcard in the target pattern */
+	target_captures: string[];
+};
+
+/** Parses the issue and PR numbers referenced like "#123" or "GH-123" out of commit messages */
+export const parseReferences = (messages: string[]): number[] => {
+	const numbers = messages.flatMap(message =>
+		Array.from(message.matchAll(/(?:^|[^\w&/])(?:#|GH-)(\d+)\b/g), match => Number(match[1])),
+	);
+	return sortBy(uniq(numbers));
+};
+
+/**
+ * Returns the parts of "branch" matched by each wildcard (*, **, ?, [...] and {a,b}) in the glob "pattern".
+ *
+ * For example, "release/*" captures ["5.1"] from "release/5.1". Returns [] if the branch doesn't match.
+ */
+export const patternCaptures = (pattern: string, branch: string): string[] => {
+	let source = '';
+	for (let i = 0; i < pattern.length; i++) {
+		const c = pattern.charAt(i);
+
+		if (c === '*' && pattern.charAt(i + 1) === '*') {
+			source += '(.*)';
+			i++;
+		} else if (c === '*') {
+			source += '([^/]*)';
+		} else if (c === '?') {
+			source += '([^/])';
+		} else if (c === '[' && pattern.includes(']', i + 1)) {
+			const end = pattern.indexOf(']', i + 1);
+			const chars = pattern.slice(i + 1, end).replace(/^!/, '^');
+			source += `([${chars}])`;
+			i = end;
+		} else if (c === '{' && pattern.includes('}', i + 1)) {
+			const end = pattern.indexOf('}', i + 1);
+			const alternatives = pattern.slice(i + 1, end).split(',');
+			source += `(${alternatives.map(escapeRegExp).join('|')})`;
+			i = end;
+		} else {
+			source += escapeRegExp(c);
+		}
+	}
+
+	try {
+		const match = branch.match(new RegExp(`^${source}$`));
+		return match ? match.slice(1).map(m => m ?? '') : [];
+	} catch {
+		// Some glob syntax (e.g. extglobs) doesn't translate
+		return [];
+	}
+};
+
+/** Marks the start of the part of a PR body sync-branches keeps up to date in "section" update mode */
+export const managedSectionStart = '<!-- sync-branches:start -->';
+/** Marks the end of the part of a PR body sync-branches keeps up to date in "section" update mode */
+export const managedSectionEnd = '<!-- sync-branches:end -->';
+
+/** Wraps a rendered PR body in the managed section markers */
+export const wrapManagedSection = (rendered: string): string =>
+	`${managedSectionStart}\n${rendered}\n${managedSectionEnd}`;
+
+/**
+ * Replaces the managed section of an existing PR body with "rendered", leaving everything outside the markers intact.
+ *
+ * If the body has no managed section (e.g. the PR was opened before "section" mode was enabled), one is appended.
+ */
+export const replaceManagedSection = (body: string, rendered: string): string => {
+	const start = body.indexOf(managedSectionStart);
+	const end = body.indexOf(managedSectionEnd, start);
+	if (start === -1 || end === -1) {
+		return body.trim() === '' ? wrapManagedSection(rendered) : `${body}\n\n${wrapManagedSection(rendered)}`;
+	}
+
+	return `${body.slice(0, start)}${wrapManagedSection(rendered)}${body.slice(end + managedSectionEnd.length)}`;
+};
+
+/** The source and target branch of a sync PR */
+export type SyncPair = {
+	source: string;
+	target: string;
+};
+
+/** The view passed to the Mustache template for intermediate branch names */
+export type BranchNameContext = {
+	rule: string;
+	source: string;
+	target: string;
+	/** The source branch with "/" replaced by "-" */
+	source_slug: string;
+	/** The target branch with "/" replaced by "-" */
+	target_slug: string;
+	/** A short hash of the source and target branch names. Tells apart pairs whose slugs collide, e.g. "a/b" and "a-b". */
+	hash: string;
+};
+
+/** The default intermediate branch name template: merge/source_to_target-hash */
+export const defaultBranchNameTemplate = 'merge/{{ source_slug }}_to_{{ target_slug }}-{{ hash }}';
+
+/** Gathers everything the intermediate branch name template may refer to */
+export const mkBranchNameContext = (rule: string, { source, target }: SyncPair): BranchNameContext => ({
+	rule,
+	source,
+	target,
+	source_slug: source.replace(/\//g, '-'),
+	target_slug: target.replace(/\//g, '-'),
+	hash: createHash('sha1').update(`${source}\n${target}`).digest('hex').slice(0, 8),
+});
+
+/** Renders an intermediate branch name. Values aren't HTML-escaped, since branch names often contain "/". */
+export const renderBranchName = (template: string, context: BranchNameContext): string =>
+	Mustache.render(template, context, {}, { escape: value => `${value}` }).trim();
+
+const syncPair: Decoder<SyncPair> = object({
+	source: string,
+	target: string,
+});
+
+/**
+ * Returns the hidden marker that identifies a sync PR from "source" to "target", no matter what its head branch is
+ * named.
+ */
+export const syncMarker = ({ source, target }: SyncPair): string =>
+	`<!-- sync-branches:pr ${JSON.stringify({ source, target })} -->`;
+
+/** Appends the sync marker to a PR body, unless it's already there */
+export const withSyncMarker = (body: string, pair: SyncPair): string => {
+	const marker = syncMarker(pair);
+	if (body.includes(marker)) {
+		return body;
+	}
+	return body.trim() === '' ? marker : `${body}\n\n${marker}`;
+};
+
+/** Reads the sync marker out of a PR body. Returns null if there isn't one. */
+export const parseSyncMarker = (body: string | null | undefined): SyncPair | null => {
+	const json = body?.match(/<!-- sync-branches:pr (\{.*?\}) -->/)?.[1];
+	if (json === undefined) {
+		return null;
+	}
+
+	try {
+		return syncPair.verify(JSON.parse(json));
+	} catch {
+		return null;
+	}
+};
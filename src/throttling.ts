@@ -0,0 +1,128 @@
+import * as core from '@actions/core';
+import { Octokit } from '@octokit/action';
+import { RequestError } from '@octokit/request-error';
+
+/** How requests that fail with a transient error or a rate limit are retried */
+export type RetryOptions = {
+	/** How many times to retry a failed request. 0 disables retries. */
+	maxRetries: number;
+	/** The longest to wait for a rate limit to reset before giving up, in milliseconds */
+	maxRateLimitWait: number;
+};
+
+/**
+ * Methods that are safe to repeat. A request that failed with a 5xx may have been applied anyway,
+ * so only these are retried after server errors.
+ */
+const idempotentMethods = new Set(['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE']);
+
+const sleep = async (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/** 1s, 2s, 4s, ... capped at 30s */
+const backoff = (attempt: number): number => Math.min(1_000 * 2 ** attempt, 30_000);
+
+/**
+ * Works out how long to wait before retrying a failed request. Returns null if it shouldn't be retried.
+ *
+ * - Rate limited requests (403/429) are rejected before GitHub acts on them, so they're retried whatever the method.
+ *   The wait comes from "retry-after", then "x-ratelimit-reset" once "x-ratelimit-remaining" hits 0.
+ *   Secondary rate limits without either header wait at least a minute, as GitHub asks.
+ * - Server errors (5xx, including network failures) are retried with exponential backoff for idempotent methods.
+ */
+const retryDelay = (err: unknown, method: string, attempt: number): number | null => {
+	if (!(err instanceof RequestError)) {
+		return null;
+	}
+	const headers = err.response?.headers ?? {};
+
+	if (err.status === 403 || err.status === 429) {
+		const retryAfter = Number(headers['retry-after']);
+		if (headers['retry-after'] !== undefined && isNaN(retryAfter) === false) {
+			return retryAfter * 1_000;
+		}
+		if (headers['x-ratelimit-remaining'] === '0') {
+			const reset = Number(headers['x-ratelimit-reset']) * 1_000;
+			return isNaN(reset) ? null : Math.max(reset - Date.now(), 0) + 1_000;
+		}
+		if (err.message.toLowerCase().includes('secondary rate limit')) {
+			return Math.max(backoff(attempt), 60_000);
+		}
+		// A plain permission error
+		return null;
+	}
+
+	if (err.status >= 500 && idempotentMethods.has(method.toUpperCase())) {
+		return backoff(attempt);
+	}
+
+	return null;
+};
+
+/**
+ * Makes every request sent by "octokit" retry transient failures and wait out rate limits (see retryDelay).
+ * Gives up on rate limits that won't reset within maxRateLimitWait.
+ *
+ * Returns the same octokit, for convenience. Don't call this twice on the same octokit.
+ */
+export const withRetries = (octokit: Octokit, { maxRetries, maxRateLimitWait }: RetryOptions): Octokit => {
+	octokit.hook.wrap('request', async (request, options) => {
+		for (let attempt = 0; ; attempt++) {
+			try {
+				return await request(options);
+			} catch (err: unknown) {
+				const delay = retryDelay(err, options.method, attempt);
+				if (attempt >= maxRetries || delay === null || delay > maxRateLimitWait) {
+					throw err;
+				}
+
+				const reason = err instanceof RequestError ? `${err.status}: ${err.message}` : `${err}`;
+				core.info(
+					`${options.method} ${options.url} failed (${reason}). Retrying in ${Math.ceil(delay / 1_000)}s (${
+						attempt + 1
+					}/${maxRetries}).`,
+				);
+				await sleep(delay);
+			}
+		}
+	});
+
+	return octokit;
+};
+
+/** Runs a task once fewer than the limiter's concurrency are already running */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Creates a limiter that runs at most "concurrency" tasks at a time. Waiting tasks start in the order they were queued.
+ *
+ * Only the innermost tasks (e.g. syncing a single pair) should go through the limiter. A task that waits on other
+ * tasks from the same limiter can deadlock.
+ */
+export const mkLimiter = (concurrency: number): Limiter => {
+	let running = 0;
+	const waiting: (() => void)[] = [];
+
+	const release = (): void => {
+		const next = waiting.shift();
+		if (next === undefined) {
+			running--;
+		} else {
+			// Hand the slot straight to the next task
+			next();
+		}
+	};
+
+	return async <T>(task: () => Promise<T>): Promise<T> => {
+		if (running < concurrency) {
+			running++;
+		} else {
+			await new Promise<void>(resolve => waiting.push(resolve));
+		}
+
+		try {
+			return await task();
+		} finally {
+			release();
+		}
+	};
+};
@@ -0,0 +1,60 @@
+/**
+ * How target branches are chosen for a given source branch
+ *
+ * - "all": every branch matching the target pattern
+ * - "next": only the closest target with a newer version than the source. If there is none, unversioned targets (e.g. "main")
+ * - "newer": every target with a newer version than the source, plus unversioned targets
+ */
+export type TargetSelection = 'all' | 'next' | 'newer';
+
+/** Parses a version like [5, 1] out of a branch name like "release/5.1". Returns null if the name contains no version. */
+export const parseVersion = (branch: string): number[] | null => {
+	const match = branch.match(/\d+(?:\.\d+)*/);
+	return match ? match[0].split('.').map(Number) : null;
+};
+
+/** Compares two versions. Missing components are treated as 0, so 5.1 == 5.1.0 */
+export const compareVersions = (a: number[], b: number[]): number => {
+	for (let i = 0; i < Math.max(a.length, b.length); i++) {
+		const diff = (a[i] ?? 0) - (b[i] ?? 0);
+		if (diff !== 0) {
+			return diff;
+		}
+	}
+	return 0;
+};
+
+/** Narrows down the branches matching the target pattern to the ones "source" should sync to */
+export const selectTargets = (source: string, targets: string[], selection: TargetSelection): string[] => {
+	if (selection === 'all') {
+		return targets;
+	}
+
+	const sourceVersion = parseVersion(source);
+	if (sourceVersion === null) {
+		// Without a version, we can't tell which targets are newer than the source
+		return [];
+	}
+
+	const versioned = targets
+		.map(branch => ({ branch, version: parseVersion(branch) }))
+		.filter((t): t is { branch: string; version: number[] } => t.version !== null);
+	const unversioned = targets.filter(t => parseVersion(t) === null);
+
+	const newer = versioned
+		.filter(t => compareVersions(t.version, sourceVersion) > 0)
+		.sort((a, b) => compareVersions(a.version, b.version));
+
+	if (selection === 'newer') {
+		return [...newer.map(t => t.branch), ...unversioned];
+	}
+
+	const next = newer[0];
+	if (next === undefined) {
+		// Nothing newer left in the cascade, so finish up with the unversioned targets
+		return unversioned;
+	}
+
+	// Several branches could share the next version (e.g. release/5.2 and hotfix/5.2)
+	return newer.filter(t => compareVersions(t.version, next.version) === 0).map(t => t.branch);
+};